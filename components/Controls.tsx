@@ -1,7 +1,23 @@
 "use client";
 
-import { useState, useMemo } from "react";
-import { useSim } from "~/state/sim";
+import { Fragment, useEffect, useRef, useState, useMemo } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { useSim, type Integrator } from "~/state/sim";
+import type { ForceSolver } from "~/lib/forces";
+import type { Drift } from "~/lib/diagnostics";
+import { AU_KM, G } from "~/lib/bodies";
+import { POPULATIONS, type Population } from "~/lib/particles";
+import { frames, loadScenario, postSim, requestBodyInits } from "~/state/simWorker";
+import { stateToElements, trueAnomalyToState, type OrbitalElements } from "~/lib/kepler";
+import type { Burn, BurnFrame } from "~/lib/maneuvers";
+import type { Body, BodyDisplay, BodyInit } from "~/lib/bodies";
+import type { BodyEdit } from "~/lib/engine";
+import type { CollisionEvent, CollisionMode } from "~/lib/collisions";
+import { formatUtc, jdToDate, parseUtc } from "~/lib/time";
+import { EPHEMERIS_RANGE } from "~/lib/ephemeris";
+import type { PorkchopSpec } from "~/lib/transfer";
+import { makeScenario, parseScenarioText, SCENARIO_VERSION } from "~/lib/scenario";
+import { PRESET_IDS, PRESETS, type PresetId } from "~/lib/presets";
 
 /* ---------- Small helpers ---------- */
 function CollapsibleSection({
@@ -101,40 +117,70 @@ const select = {
   border: "1px solid rgba(148,163,184,.25)",
 } as const;
 const checkbox = { marginLeft: 6 } as const;
+const numInput = { ...select, width: "100%", boxSizing: "border-box" } as const;
 
 /* ---------- Constants ---------- */
-const PLANET_LIST = [
-  ["sun", "Sun"],
-  ["mercury", "Mercury"],
-  ["venus", "Venus"],
-  ["earth", "Earth"],
-  ["mars", "Mars"],
-  ["jupiter", "Jupiter"],
-  ["saturn", "Saturn"],
-  ["uranus", "Uranus"],
-  ["neptune", "Neptune"],
-] as const;
-
-const TIME_MULTS = [0.25, 1, 2, 5, 10, 25] as const;
+/** Bodies in list order: each top-level body followed by its moons. */
+function registryOrder(bodies: Body[]): { body: Body; indent: boolean }[] {
+  const ids = new Set(bodies.map(b => b.id));
+  const out: { body: Body; indent: boolean }[] = [];
+  for (const b of bodies) {
+    if (b.parent && ids.has(b.parent)) continue;
+    out.push({ body: b, indent: false });
+    for (const m of bodies) if (m.parent === b.id) out.push({ body: m, indent: true });
+  }
+  return out;
+}
+
+const TIME_MULTS = [-10, -1, 0.25, 1, 2, 5, 10, 25] as const; // negative = backward
+const ROUND_TRIP_DAYS = [30, 365, 3650] as const;
 const REAL_WORLD_DPS = [1, 7, 30, 90, 365] as const; // days per second presets
 
 export default function Controls() {
   const {
     // core physics
-    running, dt, timeScale, integrator, trails, massScale, velScale,
+    running, dt, timeScale, integrator, trails, massScale, velScale, preset,
+    tolerance, stepStats, forceSolver, bhTheta, forceAccuracy, roundTrip, simRate, driftHistory,
+    collisions, collisionLog, particleCount, bodies, simTime, epochJD, history, burns, gr, perihelionBody, precession,
     // actions
-    set, pokeReset, trailLen, setTrailLen,
+    set, pokeReset, resetAt, loadPreset, pokeForceCheck, display, setDisplay, orbitOverlays, toggleOrbitOverlay,
+    addBurn, updateBurn, removeBurn,
     // camera
-    camMinDist, camMaxDist, camZoomSpeed, camAutoRotate, camAutoRotateSpeed, bumpCamReset,
+    camMinDist, zoomAid, camMaxDist, camZoomSpeed, camAutoRotate, camAutoRotateSpeed, bumpCamReset,
     // focus
     focusId,
-  } = useSim();
+  } = useSim(useShallow(s => ({
+    running: s.running, dt: s.dt, timeScale: s.timeScale, integrator: s.integrator, trails: s.trails,
+    massScale: s.massScale, velScale: s.velScale, preset: s.preset, tolerance: s.tolerance,
+    stepStats: s.stepStats, forceSolver: s.forceSolver, bhTheta: s.bhTheta, forceAccuracy: s.forceAccuracy,
+    roundTrip: s.roundTrip, simRate: s.simRate, driftHistory: s.driftHistory, collisions: s.collisions,
+    collisionLog: s.collisionLog, particleCount: s.particleCount, bodies: s.bodies, simTime: s.simTime,
+    epochJD: s.epochJD, history: s.history, burns: s.burns, gr: s.gr, perihelionBody: s.perihelionBody,
+    precession: s.precession, set: s.set, pokeReset: s.pokeReset, resetAt: s.resetAt,
+    loadPreset: s.loadPreset, pokeForceCheck: s.pokeForceCheck, display: s.display, setDisplay: s.setDisplay,
+    orbitOverlays: s.orbitOverlays, toggleOrbitOverlay: s.toggleOrbitOverlay, addBurn: s.addBurn,
+    updateBurn: s.updateBurn, removeBurn: s.removeBurn, camMinDist: s.camMinDist, zoomAid: s.zoomAid,
+    camMaxDist: s.camMaxDist, camZoomSpeed: s.camZoomSpeed, camAutoRotate: s.camAutoRotate,
+    camAutoRotateSpeed: s.camAutoRotateSpeed, bumpCamReset: s.bumpCamReset, focusId: s.focusId,
+  })));
 
   // Local UI state: which planet row is expanded (for showing its trail slider)
   const [expandedPlanet, setExpandedPlanet] = useState<string | null>(null);
 
-  // ---- derived text for real-world preset estimate (just a hint) ----
-  const estDps = useMemo(() => 60 /*fps*/ * dt * timeScale, [dt, timeScale]); // ~days/sec
+  // Test-particle generator
+  const [population, setPopulation] = useState<Population>("main-belt");
+  const [spawnCount, setSpawnCount] = useState(2000);
+
+  // Round-trip (reversibility) check span
+  const [tripDays, setTripDays] = useState<number>(365);
+
+  // Jump-to-date input (datetime-local, read as UTC)
+  const [jumpText, setJumpText] = useState("");
+  const jd = epochJD + simTime;
+  const jumpJd = parseUtc(jumpText);
+
+  // ---- requested rate; the physics worker runs dt days per tick at 60 ticks/s ----
+  const targetDps = useMemo(() => 60 * dt * timeScale, [dt, timeScale]); // days/sec
 
   return (
     <div
@@ -164,12 +210,96 @@ export default function Controls() {
           <button style={btn} onClick={() => set({ running: !running })}>
             {running ? "Pause" : "Play"}
           </button>
+          <button style={btn} onClick={() => set({ timeScale: -timeScale })}>
+            {timeScale < 0 ? "Run forward" : "Run backward"}
+          </button>
           <button style={btn} onClick={pokeReset}>Reset System</button>
         </div>
 
+        {/* Preset picker: what Reset loads */}
+        <label style={row}>
+          <span style={label}>Scenario</span>
+          <select
+            value={preset}
+            onChange={(e) => loadPreset(e.target.value as PresetId)}
+            style={select}
+          >
+            {PRESET_IDS.map(id => <option key={id} value={id}>{PRESETS[id].label}</option>)}
+          </select>
+          <small style={{ color: "#94a3b8" }}>
+            {PRESETS[preset].description} Picking one loads it; Reset reloads it. Some switch the integrator
+            or collisions, which stay until changed.
+          </small>
+        </label>
+
+        {/* Sim clock */}
+        <div style={row}>
+          <span style={label}>
+            <span style={value}>{formatUtc(jd)}</span>
+            <small style={{ color: "#94a3b8" }}> · JD <span style={value}>{jd.toFixed(3)}</span></small>
+          </span>
+          <div style={{ display: "flex", gap: 6 }}>
+            <input
+              type="datetime-local"
+              value={jumpText}
+              onFocus={() => { if (!jumpText) setJumpText(jdToDate(jd).toISOString().slice(0, 16)); }}
+              onChange={(e) => setJumpText(e.target.value)}
+              style={{ ...numInput, flex: 1 }}
+            />
+            <button
+              style={btn}
+              disabled={jumpJd === null}
+              onClick={() => { if (jumpJd !== null) postSim({ type: "jump", t: jumpJd - epochJD }); }}
+            >
+              Jump
+            </button>
+            <button
+              style={btn}
+              disabled={jumpJd === null}
+              onClick={() => { if (jumpJd !== null) resetAt(jumpJd); }}
+            >
+              Start here
+            </button>
+          </div>
+          <small style={{ color: "#94a3b8" }}>
+            UTC. Jump propagates forward or backward with the current integrator; burns and collisions apply on the way.
+            Start here resets the system with the planets where they really are on that date (JPL mean elements,
+            good to arcminutes over 1800–2050{jumpJd !== null && (jumpJd < EPHEMERIS_RANGE[0] || jumpJd > EPHEMERIS_RANGE[1]) && ", degrading outside it"}).
+          </small>
+        </div>
+
+        {/* Timeline over the snapshot history */}
+        {history && history.count > 1 && (
+          <label style={row}>
+            <span style={label}>
+              Timeline: <span style={value}>{history.count}</span> snapshots
+            </span>
+            <input
+              type="range"
+              min={history.t0}
+              max={history.t1}
+              step="any"
+              value={Math.min(history.t1, Math.max(history.t0, simTime))}
+              onChange={(e) => {
+                set({ running: false });
+                postSim({ type: "seek", t: Number(e.target.value) });
+              }}
+              style={sliderStyle}
+            />
+            <small style={{ color: "#94a3b8", display: "flex", justifyContent: "space-between" }}>
+              <span style={value}>{formatUtc(epochJD + history.t0).slice(0, 10)}</span>
+              <span style={value}>{formatUtc(epochJD + history.t1).slice(0, 10)}</span>
+            </small>
+            <small style={{ color: "#94a3b8" }}>
+              Scrubbing pauses on the nearest earlier snapshot. Playing from there branches the run:
+              later snapshots are discarded as the new history is recorded.
+            </small>
+          </label>
+        )}
+
         {/* Time scale chips */}
         <label style={row}>
-          <span style={label}>Time scale (multipliers)</span>
+          <span style={label}>Time scale (multipliers; negative runs backward)</span>
           <div style={chipRow}>
             {TIME_MULTS.map((m) => (
               <button
@@ -196,8 +326,9 @@ export default function Controls() {
                 key={dps}
                 style={chip}
                 onClick={() => {
-                  // solve for timescale to roughly hit desired days/sec: dps ≈ 60 * dt * timeScale
-                  const ts = Math.max(0.1, Math.min(400, dps / (60 * dt)));
+                  // solve for timescale to hit desired days/sec: dps = 60 * dt * timeScale
+                  // keeping the current direction
+                  const ts = Math.max(0.1, Math.min(400, dps / (60 * dt))) * (timeScale < 0 ? -1 : 1);
                   set({ timeScale: ts });
                 }}
               >
@@ -206,28 +337,47 @@ export default function Controls() {
             ))}
           </div>
           <small style={{ color: "#94a3b8" }}>
-            Est. sim rate: <strong>{estDps.toFixed(1)}</strong> days/sec (assumes ~60 FPS)
+            Sim rate: <strong>{(running ? simRate.actual : 0).toFixed(1)}</strong> days/sec
+            (target {targetDps.toFixed(1)}
+            {running && Math.abs(simRate.actual) < 0.9 * Math.abs(targetDps) ? " — physics can't keep up" : ""})
           </small>
         </label>
       </div>
 
+      {/* ===== Scenario file ===== */}
+      <CollapsibleSection title="Scenario file" defaultOpen={false}>
+        <ScenarioPanel />
+      </CollapsibleSection>
+
       {/* CAMERA (collapsed by default) */}
       <CollapsibleSection title="Camera" defaultOpen={false}>
         <label style={row}>
           <span style={label}>
-            Min distance: <span style={value}>{camMinDist.toFixed(2)}</span>
+            Min distance: <span style={value}>{camMinDist.toFixed(3)}</span>
           </span>
           <input
             type="range"
-            min={0.01}
+            min={0.001}
             max={5}
-            step={0.01}
+            step={0.001}
             value={camMinDist}
             onChange={(e) => set({ camMinDist: Number(e.target.value) })}
             style={sliderStyle}
           />
         </label>
 
+        <label style={{ ...row, display: "flex", justifyContent: "space-between" }}>
+          <span style={label} title="Caps how large bodies and labels look up close, so moons don't vanish inside their planet's exaggerated sphere">
+            Zoom aid (shrink bodies up close)
+          </span>
+          <input
+            type="checkbox"
+            checked={zoomAid}
+            onChange={(e) => set({ zoomAid: e.target.checked })}
+            style={checkbox}
+          />
+        </label>
+
         <label style={row}>
           <span style={label}>
             Max distance: <span style={value}>{camMaxDist.toFixed(0)}</span>
@@ -292,8 +442,10 @@ export default function Controls() {
         </div>
       </CollapsibleSection>
 
-      {/* PLANETS (scrollable, collapsed by default) */}
-      <CollapsibleSection title="Planets" defaultOpen={false} scroll maxHeight="46vh">
+      {/* BODIES (scrollable, collapsed by default): one row per registry entry */}
+      <CollapsibleSection title="Bodies" defaultOpen={false} scroll maxHeight="46vh">
+        {focusId && <ElementsReadout key={focusId} focusId={focusId} />}
+
         {/* “None” option */}
         <PlanetRow
           id=""
@@ -302,30 +454,47 @@ export default function Controls() {
           onFocus={() => set({ focusId: null })}
           onSnap={bumpCamReset}
           showDetails={false}
-          trailValue={0}
-          onTrail={() => {}}
+          overlay={false}
+          onOverlay={() => {}}
         />
 
-        {PLANET_LIST.map(([id, name]) => {
+        {registryOrder(bodies).map(({ body: b, indent }) => {
+          const id = b.id;
+          const d = display[id];
           const isFocused = focusId === id;
           const showDetails = isFocused || expandedPlanet === id;
+          const primary = b.parent ?? "sun";
           return (
             <PlanetRow
               key={id}
               id={id}
-              name={name}
+              name={b.name}
+              color={d?.color ?? b.color}
+              indent={indent}
               focused={isFocused}
+              focusable={d?.focusable ?? true}
               onFocus={() => set({ focusId: id })}
               onSnap={bumpCamReset}
               showDetails={showDetails}
               onToggle={() => setExpandedPlanet((cur) => (cur === id ? null : id))}
-              trailValue={(trailLen as any)[id] ?? 0}
-              onTrail={(v) => setTrailLen(id, v)}
+              display={d}
+              onDisplay={(patch) => {
+                setDisplay(id, patch);
+                if (patch.focusable === false && isFocused) set({ focusId: null });
+              }}
+              canOverlay={primary !== id && bodies.some(p => p.id === primary)}
+              overlay={!!orbitOverlays[id]}
+              onOverlay={() => toggleOrbitOverlay(id)}
             />
           );
         })}
       </CollapsibleSection>
 
+      {/* ===== Body editor ===== */}
+      <CollapsibleSection title="Body editor" defaultOpen={false}>
+        <BodyEditor />
+      </CollapsibleSection>
+
       {/* ADVANCED / PHYSICS (collapsed by default) */}
       <CollapsibleSection title="Advanced (Physics)" defaultOpen={false}>
         <label style={row}>
@@ -347,14 +516,194 @@ export default function Controls() {
           <span style={label}>Integrator</span>
           <select
             value={integrator}
-            onChange={(e) => set({ integrator: e.target.value as "leapfrog" | "rk4" })}
+            onChange={(e) => set({ integrator: e.target.value as Integrator })}
             style={select}
           >
             <option value="leapfrog">Leapfrog</option>
             <option value="rk4">RK4</option>
+            <option value="yoshida4">Yoshida 4 (symplectic)</option>
+            <option value="yoshida6">Yoshida 6 (symplectic)</option>
+            <option value="wh">Wisdom–Holman (symplectic)</option>
+            <option value="dopri">Dormand–Prince 5(4) (adaptive)</option>
+            <option value="kepler">Kepler (two-body conics, no perturbations)</option>
           </select>
         </label>
 
+        {integrator === "wh" && bodies.some(b => b.parent) && (
+          <small style={{ color: "#94a3b8" }}>
+            Wisdom–Holman splits every orbit around the Sun, so moons ride on the interaction kicks and its
+            half-day substeps resolve them poorly (Io circles Jupiter in 1.8 days). Use leapfrog or
+            Dormand–Prince when the moons matter.
+          </small>
+        )}
+
+        {integrator === "kepler" && (
+          <small style={{ color: "#94a3b8" }}>
+            Each body follows its analytic orbit around its primary (the Sun, or a moon&apos;s planet) from the current state, ignoring every
+            other body (and GR and finite burns). Switch back to an n-body integrator to see what the
+            perturbations add.
+          </small>
+        )}
+
+        {integrator === "dopri" && (
+          <>
+            <label style={row}>
+              <span style={label}>
+                Tolerance: <span style={value}>{tolerance.toExponential(0)}</span>
+              </span>
+              <input
+                type="range"
+                min={-14}
+                max={-6}
+                step={1}
+                value={Math.round(Math.log10(tolerance))}
+                onChange={(e) => set({ tolerance: Math.pow(10, Number(e.target.value)) })}
+                style={sliderStyle}
+              />
+            </label>
+            <small style={{ color: "#94a3b8" }}>
+              Steps: <strong style={value}>{stepStats.accepted}</strong> accepted,{" "}
+              <strong style={value}>{stepStats.rejected}</strong> rejected
+              {stepStats.h > 0 && (
+                <> · h ≈ <span style={value}>{stepStats.h.toPrecision(3)}</span> d</>
+              )}
+            </small>
+            {stepStats.truncated > 0 && (
+              <small style={{ color: "#fca5a5" }}>
+                {stepStats.truncated} frame{stepStats.truncated === 1 ? "" : "s"} ran out of steps before covering
+                their span; the clock only advanced as far as the integrator got. Loosen the tolerance or lower the rate.
+              </small>
+            )}
+          </>
+        )}
+
+        <label style={row}>
+          <span style={label}>Force solver</span>
+          <select
+            value={forceSolver}
+            onChange={(e) => set({ forceSolver: e.target.value as ForceSolver })}
+            style={select}
+          >
+            <option value="direct">Direct summation (O(N²), reference)</option>
+            <option value="barnes-hut">Barnes–Hut octree (O(N log N))</option>
+          </select>
+        </label>
+
+        {forceSolver === "barnes-hut" && (
+          <label style={row}>
+            <span style={label}>
+              Opening angle θ: <span style={value}>{bhTheta.toFixed(2)}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1.2}
+              step={0.05}
+              value={bhTheta}
+              onChange={(e) => set({ bhTheta: Number(e.target.value) })}
+              style={sliderStyle}
+            />
+          </label>
+        )}
+
+        <div style={{ display: "grid", gap: 4 }}>
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+            <button style={btn} onClick={pokeForceCheck}>
+              Check Barnes–Hut accuracy (θ = {bhTheta.toFixed(2)})
+            </button>
+          </div>
+          {forceAccuracy && (
+            <small style={{ color: "#94a3b8" }}>
+              vs direct, N = <span style={value}>{forceAccuracy.n}</span>: max rel. error{" "}
+              <strong style={value}>{forceAccuracy.maxRelErr.toExponential(2)}</strong>, rms{" "}
+              <strong style={value}>{forceAccuracy.rmsRelErr.toExponential(2)}</strong>
+            </small>
+          )}
+        </div>
+
+        <div style={{ display: "grid", gap: 4 }}>
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+            <select value={tripDays} onChange={(e) => setTripDays(Number(e.target.value))} style={select}>
+              {ROUND_TRIP_DAYS.map((d) => (
+                <option key={d} value={d}>{d >= 365 ? `${d / 365} yr` : `${d} d`}</option>
+              ))}
+            </select>
+            <button style={btn} onClick={() => postSim({ type: "roundTrip", days: tripDays })}>
+              Round-trip check (forward, then back)
+            </button>
+          </div>
+          {roundTrip && (
+            <div style={{ display: "grid", gridTemplateColumns: "auto 1fr auto", gap: "2px 8px", fontSize: 11 }}>
+              {roundTrip.map((r) => (
+                <Fragment key={r.integrator}>
+                  <span style={{ color: r.integrator === integrator ? "#e5e7eb" : "#94a3b8" }}>{r.integrator}</span>
+                  <span style={value}>
+                    |Δr| {r.maxDr.toExponential(1)} AU <small style={{ color: "#64748b" }}>({r.body})</small>
+                  </span>
+                  <span style={{ ...value, color: "#64748b" }}>{r.ms.toFixed(0)} ms</span>
+                </Fragment>
+              ))}
+            </div>
+          )}
+          <small style={{ color: "#94a3b8" }}>
+            Bodies only, no burns or collisions. Symplectic integrators retrace their steps to round-off;
+            RK4 and Dormand–Prince return with their truncation error. GR makes the force depend on
+            velocity, which breaks exact reversibility for leapfrog too.
+          </small>
+        </div>
+
+        <label style={{ ...row, display: "flex", justifyContent: "space-between" }}>
+          <span style={label}>General relativity (1PN from the Sun)</span>
+          <input
+            type="checkbox"
+            checked={gr}
+            onChange={(e) => set({ gr: e.target.checked })}
+            style={checkbox}
+          />
+        </label>
+
+        <div style={{ display: "grid", gap: 6 }}>
+          <label style={row}>
+            <span style={label}>Perihelion precession of</span>
+            <select value={perihelionBody} onChange={(e) => set({ perihelionBody: e.target.value })} style={select}>
+              {bodies.filter(b => b.id !== "sun").map(b => (
+                <option key={b.id} value={b.id}>{b.name}</option>
+              ))}
+            </select>
+          </label>
+          {precession && precession.spanDays > 0 ? (
+            <small style={{ color: "#94a3b8" }}>
+              Measured <strong style={value}>{precession.measured.toFixed(2)}</strong>″/century vs analytic GR{" "}
+              <strong style={value}>{precession.analytic.toFixed(2)}</strong>″/century · fit over{" "}
+              <span style={value}>{(precession.spanDays / 365.25).toFixed(1)}</span> yr, e ={" "}
+              <span style={value}>{precession.e.toFixed(4)}</span>
+              {!precession.resolved && (
+                <span style={{ display: "block", color: "#fca5a5" }}>
+                  Not a GR check: {integrator}&apos;s own perihelion drift is larger than the 1PN effect.
+                  Switch to Wisdom–Holman to measure it.
+                </span>
+              )}
+            </small>
+          ) : (
+            <small style={{ color: "#94a3b8" }}>Collecting samples…</small>
+          )}
+          <small style={{ color: "#64748b" }}>
+            The measured rate includes everything that turns the orbit (other planets, softening). Use the
+            Sun–Mercury test with Wisdom–Holman to see the relativistic part alone, or compare GR on and off.
+          </small>
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+            <button
+              style={btn}
+              onClick={() => {
+                set({ perihelionBody: "mercury" });
+                postSim({ type: "loadPrecessionTest" });
+              }}
+            >
+              Load Sun–Mercury test (e = 0.2056)
+            </button>
+          </div>
+        </div>
+
         <label style={{ ...row, display: "flex", justifyContent: "space-between" }}>
           <span style={label}>Trails</span>
           <input
@@ -395,31 +744,436 @@ export default function Controls() {
           />
         </label>
       </CollapsibleSection>
+
+      {/* ===== Maneuvers ===== */}
+      <CollapsibleSection title="Maneuvers" defaultOpen={false} scroll maxHeight="44vh">
+        <ManeuverEditor
+          bodies={bodies}
+          simTime={simTime}
+          burns={burns}
+          onAdd={addBurn}
+          onChange={updateBurn}
+          onRemove={removeBurn}
+        />
+      </CollapsibleSection>
+
+      {/* ===== Transfers ===== */}
+      <CollapsibleSection title="Transfers" defaultOpen={false}>
+        <PorkchopPanel bodies={bodies} simTime={simTime} epochJD={epochJD} />
+      </CollapsibleSection>
+
+      {/* ===== Small bodies ===== */}
+      <CollapsibleSection title="Small bodies" defaultOpen={false}>
+        <small style={{ color: "#94a3b8" }}>
+          Massless test particles: they feel the Sun and planets but not each other.
+          In the system: <strong style={value}>{particleCount}</strong>
+        </small>
+        <label style={row}>
+          <span style={label}>Population</span>
+          <select value={population} onChange={(e) => setPopulation(e.target.value as Population)} style={select}>
+            {(Object.keys(POPULATIONS) as Population[]).map(p => (
+              <option key={p} value={p}>{POPULATIONS[p].label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={row}>
+          <span style={label}>
+            Count: <span style={value}>{spawnCount}</span>
+          </span>
+          <input
+            type="range"
+            min={100}
+            max={10000}
+            step={100}
+            value={spawnCount}
+            onChange={(e) => setSpawnCount(Number(e.target.value))}
+            style={sliderStyle}
+          />
+        </label>
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+          <button style={btn} onClick={() => postSim({ type: "particles", population, count: spawnCount })}>
+            Add particles
+          </button>
+          <button
+            style={btn}
+            disabled={particleCount === 0}
+            onClick={() => postSim({ type: "clearParticles" })}
+          >
+            Clear particles
+          </button>
+        </div>
+      </CollapsibleSection>
+
+      {/* ===== Collisions ===== */}
+      <CollapsibleSection title="Collisions" defaultOpen={false}>
+        <label style={row}>
+          <span style={label}>On contact (physical radii)</span>
+          <select
+            value={collisions}
+            onChange={(e) => set({ collisions: e.target.value as CollisionMode })}
+            style={select}
+          >
+            <option value="merge">Merge (inelastic; test particles are deleted)</option>
+            <option value="bounce">Elastic bounce</option>
+            <option value="delete">Delete test particles (bodies pass through)</option>
+            <option value="off">Off (pass through)</option>
+          </select>
+        </label>
+        <CollisionLog events={collisionLog} />
+      </CollapsibleSection>
+
+      {/* ===== Diagnostics ===== */}
+      <CollapsibleSection title="Diagnostics" defaultOpen={false}>
+        <DriftReadout history={driftHistory} />
+      </CollapsibleSection>
+    </div>
+  );
+}
+
+/* ---------- Maneuver editor ---------- */
+const BURN_FRAMES: [BurnFrame, string][] = [
+  ["prograde", "Prograde"],
+  ["radial", "Radial out"],
+  ["normal", "Normal"],
+  ["toward", "Toward body"],
+];
+
+function burnStatus(b: Burn, t: number): string {
+  if (t < b.t) return `in ${(b.t - t).toFixed(1)} d`;
+  if (b.duration > 0 && t < b.t + b.duration) return "firing";
+  return "done";
+}
+
+/**
+ * Number field of a burn. Edits apply as they're typed; a blank, non-numeric
+ * or out-of-range entry is reported under the field and not applied.
+ */
+function BurnNumber({
+  what,
+  value,
+  step,
+  min,
+  onValue,
+}: {
+  what: string;
+  value: number;
+  step: number;
+  min?: number;
+  onValue: (x: number) => void;
+}) {
+  const [text, setText] = useState(String(value));
+  const [error, setError] = useState<string | null>(null);
+  // follow changes made elsewhere (a scenario load, a worker update) that the text doesn't already say
+  const [seen, setSeen] = useState(value);
+  if (value !== seen) {
+    setSeen(value);
+    if (Number(text) !== value) { setText(String(value)); setError(null); }
+  }
+
+  const change = (t: string) => {
+    setText(t);
+    const x = Number(t);
+    if (t.trim() === "" || !Number.isFinite(x)) setError("not a number");
+    else if (min !== undefined && x < min) setError(`must be ≥ ${min}`);
+    else { setError(null); onValue(x); }
+  };
+
+  return (
+    <label style={row}>
+      <span style={label}>{what}</span>
+      <input type="number" min={min} step={step} value={text} onChange={(e) => change(e.target.value)} style={numInput} />
+      {error && <small style={{ color: "#fca5a5" }}>{error}</small>}
+    </label>
+  );
+}
+
+function ManeuverEditor({
+  bodies,
+  simTime,
+  burns,
+  onAdd,
+  onChange,
+  onRemove,
+}: {
+  bodies: Body[];
+  simTime: number;
+  burns: Burn[];
+  onAdd: (b: Omit<Burn, "id">) => void;
+  onChange: (id: string, patch: Partial<Burn>) => void;
+  onRemove: (id: string) => void;
+}) {
+  const hasPayload = bodies.some(b => b.id === "payload");
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <small style={{ color: "#94a3b8" }}>
+        Sim time: <span style={value}>{simTime.toFixed(2)}</span> d. Burns fire at their start time;
+        duration 0 is an impulse. Negative Δv reverses the direction.
+      </small>
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+        <button style={btn} onClick={() => postSim({ type: "payload" })}>
+          {hasPayload ? "Re-park payload in GEO" : "Add payload (GEO around Earth)"}
+        </button>
+        <button
+          style={btn}
+          onClick={() =>
+            onAdd({
+              target: hasPayload ? "payload" : "earth",
+              t: Math.ceil(simTime + 5),
+              duration: 0,
+              dv: 100,
+              frame: "prograde",
+              ref: hasPayload ? "earth" : "sun",
+            })
+          }
+        >
+          + Burn
+        </button>
+      </div>
+
+      {burns.length === 0 && <small style={{ color: "#64748b" }}>No burns scheduled.</small>}
+      {burns
+        .slice()
+        .sort((a, b) => a.t - b.t)
+        .map(b => (
+          <div
+            key={b.id}
+            style={{
+              border: "1px solid rgba(148,163,184,.15)",
+              borderRadius: 8,
+              padding: 8,
+              display: "grid",
+              gridTemplateColumns: "1fr 1fr",
+              gap: 6,
+              opacity: burnStatus(b, simTime) === "done" ? 0.6 : 1,
+            }}
+          >
+            <label style={row}>
+              <span style={label}>Body</span>
+              <select value={b.target} onChange={(e) => onChange(b.id, { target: e.target.value })} style={select}>
+                {bodies.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+              </select>
+            </label>
+            <BurnNumber what="Start (d)" value={b.t} step={0.5} onValue={(t) => onChange(b.id, { t })} />
+            <BurnNumber what="Δv (m/s)" value={b.dv} step={10} onValue={(dv) => onChange(b.id, { dv })} />
+            <BurnNumber
+              what="Duration (h)"
+              value={+(b.duration * 24).toFixed(4)}
+              step={0.5}
+              min={0}
+              onValue={(h) => onChange(b.id, { duration: h / 24 })}
+            />
+            <label style={row}>
+              <span style={label}>Direction</span>
+              <select
+                value={b.frame}
+                onChange={(e) => onChange(b.id, { frame: e.target.value as BurnFrame })}
+                style={select}
+              >
+                {BURN_FRAMES.map(([f, name]) => <option key={f} value={f}>{name}</option>)}
+              </select>
+            </label>
+            <label style={row}>
+              <span style={label}>{b.frame === "toward" ? "Target" : "Relative to"}</span>
+              <select value={b.ref} onChange={(e) => onChange(b.id, { ref: e.target.value })} style={select}>
+                {bodies.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+              </select>
+            </label>
+            <div style={{ gridColumn: "1 / -1", display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <small style={{ color: "#94a3b8" }}>{burnStatus(b, simTime)}</small>
+              <button style={{ ...btn, padding: "4px 8px" }} onClick={() => onRemove(b.id)} title="Delete burn">
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
+
+/* ---------- Collision event log ---------- */
+const COLLISION_VERB: Record<CollisionEvent["kind"], string> = {
+  merge: "absorbed",
+  bounce: "bounced off",
+  delete: "hit",
+};
+
+function CollisionLog({ events }: { events: CollisionEvent[] }) {
+  if (!events.length) return <small style={{ color: "#94a3b8" }}>No collisions since reset.</small>;
+  return (
+    <div style={{ display: "grid", gap: 2, maxHeight: 140, overflowY: "auto", fontSize: 11 }}>
+      {events.slice().reverse().map((e, k) => (
+        <div key={`${e.t}-${e.ids[0]}-${e.ids[1]}-${k}`} style={{ color: "#cbd5e1" }}>
+          <span style={{ color: "#64748b" }}>t = {e.t.toFixed(2)} d</span> · {e.names[0]} {COLLISION_VERB[e.kind]}{" "}
+          {e.names[1]}
+          {e.kind === "delete" && " (removed)"}
+          <span style={{ color: "#64748b" }}> · {(e.speed * AU_KM / 86400).toFixed(2)} km/s</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* ---------- Conserved-quantity drift ---------- */
+const fmtDrift = (x: number) => (x > 0 ? x.toExponential(2) : "0");
+
+function DriftReadout({ history }: { history: Drift[] }) {
+  const last = history[history.length - 1];
+  if (!last) {
+    return <small style={{ color: "#94a3b8" }}>Waiting for the simulation to run…</small>;
+  }
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <small style={{ color: "#94a3b8" }}>
+        Since reset (<span style={value}>{last.t.toFixed(0)}</span> d):
+      </small>
+      <div style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: "2px 10px", fontSize: 12 }}>
+        <span style={label}>|ΔE/E|</span>
+        <strong style={value}>{fmtDrift(last.dE)}</strong>
+        <span style={label}>|ΔL|/|L|</span>
+        <strong style={value}>{fmtDrift(last.dL)}</strong>
+        <span style={label}>|ΔP|/Σm|v|</span>
+        <strong style={value}>{fmtDrift(last.dP)}</strong>
+      </div>
+      <Sparkline values={history.map(d => d.dE)} />
+      <small style={{ color: "#64748b" }}>Energy drift, log scale (includes the softening term).</small>
     </div>
   );
 }
 
-/* ---------- Planet row (compact) ---------- */
+/** Tiny SVG line of log10(values); zeros are clamped to the floor. */
+function Sparkline({ values, width = 220, height = 40 }: { values: number[]; width?: number; height?: number }) {
+  if (values.length < 2) return null;
+  const FLOOR = -16;
+  const logs = values.map(v => (v > 0 ? Math.max(FLOOR, Math.log10(v)) : FLOOR));
+  let lo = Math.min(...logs), hi = Math.max(...logs);
+  if (hi - lo < 1) { lo = Math.floor(lo); hi = lo + 1; } // keep at least one decade visible
+  const pts = logs
+    .map((l, k) => {
+      const x = (k / (logs.length - 1)) * width;
+      const y = height - 2 - ((l - lo) / (hi - lo)) * (height - 4);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 6, alignItems: "center" }}>
+      <svg width="100%" height={height} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none"
+        style={{ background: "rgba(15,23,42,.6)", borderRadius: 6 }}>
+        <polyline points={pts} fill="none" stroke="#60a5fa" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <small style={{ color: "#64748b", display: "grid", fontSize: 10, textAlign: "right" }}>
+        <span>1e{hi.toFixed(0)}</span>
+        <span>1e{lo.toFixed(0)}</span>
+      </small>
+    </div>
+  );
+}
+
+/* ---------- Osculating elements of the focused body ---------- */
+const READOUT_MS = 250;
+const DEG = 180 / Math.PI;
+
+function ElementsReadout({ focusId }: { focusId: string }) {
+  const { bodies, masses, massScale } = useSim(useShallow(s => ({ bodies: s.bodies, masses: s.masses, massScale: s.massScale })));
+  // a moon's elements default to its planet
+  const [primaryId, setPrimaryId] = useState(() => bodies.find(b => b.id === focusId)?.parent ?? "sun");
+  const [el, setEl] = useState<OrbitalElements | null>(null);
+  const i = bodies.findIndex((b) => b.id === focusId);
+  const p = bodies.findIndex((b) => b.id === primaryId);
+
+  // sampled from the latest worker snapshot a few times a second, not per frame
+  useEffect(() => {
+    const update = () => {
+      const snap = frames.next;
+      const mu = G * ((masses[i] ?? 0) + (masses[p] ?? 0)) * massScale;
+      if (i < 0 || p < 0 || i === p || !snap || snap.pos.length < 3 * bodies.length || !(mu > 0)) {
+        setEl(null);
+        return;
+      }
+      const r = [0, 1, 2].map((c) => snap.pos[3 * i + c] - snap.pos[3 * p + c]);
+      const v = [0, 1, 2].map((c) => snap.vel[3 * i + c] - snap.vel[3 * p + c]);
+      setEl(stateToElements(r, v, mu));
+    };
+    update();
+    const timer = setInterval(update, READOUT_MS);
+    return () => clearInterval(timer);
+  }, [i, p, bodies.length, masses, massScale]);
+
+  const mu = G * ((masses[i] ?? 0) + (masses[p] ?? 0)) * massScale;
+  const cells: [string, string][] = el
+    ? [
+        ["a", `${el.a.toPrecision(6)} AU`],
+        ["e", el.e.toFixed(6)],
+        ["i", `${(el.i * DEG).toFixed(3)}°`],
+        ["Ω", `${(el.Omega * DEG).toFixed(3)}°`],
+        ["ω", `${(el.w * DEG).toFixed(3)}°`],
+        ["ν", `${(el.nu * DEG).toFixed(3)}°`],
+        ["M", el.e < 1 ? `${(el.M * DEG).toFixed(3)}°` : `${el.M.toPrecision(4)} rad`],
+        el.e < 1
+          ? ["P", `${(2 * Math.PI * Math.sqrt(el.a ** 3 / mu)).toFixed(2)} d`]
+          : ["", el.e > 1 ? "hyperbolic" : "parabolic"],
+      ]
+    : [];
+
+  return (
+    <div style={{ display: "grid", gap: 6, padding: "6px 0" }}>
+      <label style={{ ...row, gridTemplateColumns: "1fr auto" }}>
+        <span style={label}>Osculating elements of {bodies[i]?.name ?? focusId} around</span>
+        <select value={primaryId} onChange={(e) => setPrimaryId(e.target.value)} style={select}>
+          {bodies.filter((b) => b.id !== focusId).map((b) => (
+            <option key={b.id} value={b.id}>{b.name}</option>
+          ))}
+        </select>
+      </label>
+      {el ? (
+        <div style={{ display: "grid", gridTemplateColumns: "auto 1fr auto 1fr", gap: "2px 8px", fontSize: 11 }}>
+          {cells.map(([k, v], n) => (
+            <Fragment key={n}>
+              <span style={{ color: "#94a3b8" }}>{k}</span>
+              <span style={{ ...value, color: "#e5e7eb" }}>{v}</span>
+            </Fragment>
+          ))}
+        </div>
+      ) : (
+        <small style={{ color: "#94a3b8" }}>Pick a primary other than the focused body.</small>
+      )}
+    </div>
+  );
+}
+
+/* ---------- Body row (compact), one per registry entry ---------- */
 function PlanetRow({
   id,
   name,
+  color,
+  indent = false,
   focused,
+  focusable = true,
   onFocus,
   onSnap,
   showDetails,
   onToggle,
-  trailValue,
-  onTrail,
+  display,
+  onDisplay,
+  canOverlay = false,
+  overlay,
+  onOverlay,
 }: {
   id: string;
   name: string;
+  color?: string;
+  indent?: boolean;             // moons sit under their planet
   focused: boolean;
+  focusable?: boolean;
   onFocus: () => void;
   onSnap: () => void;
   showDetails: boolean;
   onToggle?: () => void;
-  trailValue: number;
-  onTrail: (v: number) => void;
+  display?: BodyDisplay;
+  onDisplay?: (patch: Partial<BodyDisplay>) => void;
+  canOverlay?: boolean;         // has a primary to draw the osculating orbit around
+  overlay: boolean;
+  onOverlay: () => void;
 }) {
   return (
     <div
@@ -427,6 +1181,7 @@ function PlanetRow({
         border: "1px solid rgba(148,163,184,.15)",
         borderRadius: 8,
         padding: 10,
+        marginLeft: indent ? 16 : 0,
         display: "grid",
         gap: 8,
       }}
@@ -439,16 +1194,28 @@ function PlanetRow({
           alignItems: "center",
         }}
       >
-        <input type="radio" checked={focused} onChange={onFocus} name="focusPlanet" style={{ margin: 0 }} />
-        <span style={{ fontSize: 12, color: "#e5e7eb" }}>{name}</span>
-        {id && (
+        <input
+          type="radio"
+          checked={focused}
+          onChange={onFocus}
+          disabled={!focusable}
+          name="focusPlanet"
+          style={{ margin: 0 }}
+        />
+        <span style={{ fontSize: 12, color: focusable ? "#e5e7eb" : "#64748b" }}>
+          {color && (
+            <span style={{ display: "inline-block", width: 8, height: 8, borderRadius: 4, background: color, marginRight: 6 }} />
+          )}
+          {name}
+        </span>
+        {id && focusable && (
           <button style={btn} onClick={onSnap} title="Snap camera to target">
             Snap
           </button>
         )}
         {id && (
           <button
-            style={{ ...btn, padding: "6px 8px" }}
+            style={{ ...btn, padding: "6px 8px", gridColumn: focusable ? undefined : 4 }}
             onClick={onToggle}
             title={showDetails ? "Hide details" : "Show details"}
           >
@@ -457,23 +1224,609 @@ function PlanetRow({
         )}
       </div>
 
-      {/* Per-planet controls are shown only for the focused/expanded one */}
-      {id && showDetails && (
-        <label style={{ ...row, marginTop: 4 }}>
-          <span style={label}>
-            Trail length: <span style={value}>{trailValue}</span>
+      {/* Per-body display settings are shown only for the focused/expanded one */}
+      {id && showDetails && display && onDisplay && (
+        <>
+          <label style={{ ...row, marginTop: 4 }}>
+            <span style={label}>
+              Trail length: <span style={value}>{display.trailLen}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={10000}
+              step={100}
+              value={display.trailLen}
+              onChange={(e) => onDisplay({ trailLen: Math.max(0, Math.floor(Number(e.target.value))) })}
+              style={sliderStyle}
+            />
+          </label>
+          <label style={{ ...row, display: "flex", justifyContent: "space-between" }}>
+            <span style={label}>Label</span>
+            <input type="checkbox" checked={display.label} onChange={() => onDisplay({ label: !display.label })} style={checkbox} />
+          </label>
+          <label style={{ ...row, display: "flex", justifyContent: "space-between" }}>
+            <span style={label} title="Offered as a camera target, here and by clicking it in the scene">Focusable</span>
+            <input
+              type="checkbox"
+              checked={display.focusable}
+              onChange={() => onDisplay({ focusable: !display.focusable })}
+              style={checkbox}
+            />
+          </label>
+          <div style={{ ...row, display: "flex", justifyContent: "space-between" }}>
+            <span style={label}>Color{display.color ? " (overridden)" : ""}</span>
+            <span style={{ display: "flex", gap: 6, alignItems: "center" }}>
+              <input type="color" value={display.color ?? color ?? "#e5e7eb"} onChange={(e) => onDisplay({ color: e.target.value })} />
+              {display.color && (
+                <button style={{ ...btn, padding: "2px 6px" }} onClick={() => onDisplay({ color: null })}>Reset</button>
+              )}
+            </span>
+          </div>
+        </>
+      )}
+      {id && canOverlay && showDetails && (
+        <label style={{ ...row, display: "flex", justifyContent: "space-between" }}>
+          <span style={label} title="Current two-body orbit around its primary, with periapsis, apoapsis and ascending node">
+            Osculating orbit
           </span>
-          <input
-            type="range"
-            min={0}
-            max={10000}
-            step={100}
-            value={trailValue}
-            onChange={(e) => onTrail(Number(e.target.value))}
-            style={sliderStyle}
-          />
+          <input type="checkbox" checked={overlay} onChange={onOverlay} style={checkbox} />
         </label>
       )}
     </div>
   );
 }
+
+/* ---------- Transfer planning (porkchop plot) ---------- */
+const PORKCHOP_N = 48;
+const DEPART_SPANS = [180, 365, 730, 1095] as const;
+const PORKCHOP_METRICS = {
+  c3: { label: "Departure C3", unit: "km²/s²" },
+  dv: { label: "Total v∞ (departure + arrival)", unit: "km/s" },
+} as const;
+type PorkchopMetric = keyof typeof PORKCHOP_METRICS;
+
+/** Cells from the best value up to 4× it are coloured (cyan → red, log scale); worse ones are grey. */
+const PORKCHOP_RANGE = 4;
+
+function porkchopTimes(spec: PorkchopSpec) {
+  const at = ([t0, t1]: [number, number], k: number) => (spec.n > 1 ? t0 + (t1 - t0) * k / (spec.n - 1) : t0);
+  return { depart: (a: number) => at(spec.depart, a), arrive: (b: number) => at(spec.arrive, b) };
+}
+
+function PorkchopPanel({ bodies, simTime, epochJD }: { bodies: Body[]; simTime: number; epochJD: number }) {
+  const porkchop = useSim(s => s.porkchop);
+  const transfer = useSim(s => s.transfer);
+  const targets = bodies.filter(b => b.id !== "sun" && b.id !== "payload");
+  const [from, setFrom] = useState("earth");
+  const [to, setTo] = useState("mars");
+  const [span, setSpan] = useState<number>(730);
+  const [tofMin, setTofMin] = useState(100);
+  const [tofMax, setTofMax] = useState(500);
+  const [metric, setMetric] = useState<PorkchopMetric>("c3");
+  const [hover, setHover] = useState<[number, number] | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const values = porkchop?.[metric];
+  const best = useMemo(() => {
+    if (!values) return -1;
+    let k = -1;
+    values.forEach((v, j) => { if (v < (k < 0 ? Infinity : values[k])) k = j; });
+    return k;
+  }, [values]);
+
+  // departure columns the clock has already passed: shown dimmed, can't be launched
+  const passed = useMemo(() => {
+    if (!porkchop) return 0;
+    const { depart } = porkchopTimes(porkchop.spec);
+    let a = 0;
+    while (a < porkchop.spec.n && depart(a) < simTime) a++;
+    return a;
+  }, [porkchop, simTime]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!porkchop || !values || !canvas || !ctx) return;
+    const n = porkchop.spec.n;
+    const lo = best >= 0 ? values[best] : NaN;
+    ctx.clearRect(0, 0, n, n);
+    for (let a = 0; a < n; a++) {
+      for (let b = 0; b < n; b++) {
+        const v = values[a * n + b];
+        if (!Number.isFinite(v)) continue; // left clear: no transfer
+        const f = lo > 0 ? Math.log(v / lo) / Math.log(PORKCHOP_RANGE) : 0;
+        ctx.fillStyle = f > 1 ? "#334155" : `hsl(${(200 * (1 - f)).toFixed(0)}, 85%, ${(55 - 20 * f).toFixed(0)}%)`;
+        ctx.fillRect(a, n - 1 - b, 1, 1); // departure → x, later arrivals up
+      }
+    }
+    ctx.fillStyle = "rgba(15,23,42,.75)";
+    ctx.fillRect(0, 0, passed, n);
+  }, [porkchop, values, best, passed]);
+
+  const cellAt = (e: React.MouseEvent<HTMLCanvasElement>): [number, number] | null => {
+    if (!porkchop) return null;
+    const n = porkchop.spec.n;
+    const r = e.currentTarget.getBoundingClientRect();
+    const a = Math.floor(((e.clientX - r.left) / r.width) * n);
+    const b = n - 1 - Math.floor(((e.clientY - r.top) / r.height) * n);
+    return a >= 0 && a < n && b >= 0 && b < n ? [a, b] : null;
+  };
+
+  const describe = ([a, b]: [number, number]) => {
+    if (!porkchop || !values) return "";
+    const { depart, arrive } = porkchopTimes(porkchop.spec);
+    const v = values[a * porkchop.spec.n + b];
+    const date = (t: number) => formatUtc(epochJD + t).slice(0, 10);
+    const tof = arrive(b) - depart(a);
+    return `${date(depart(a))} → ${date(arrive(b))} (${tof.toFixed(0)} d): ` +
+      (Number.isFinite(v) ? `${v.toFixed(2)} ${PORKCHOP_METRICS[metric].unit}` : "no transfer") +
+      (a < passed ? " · departure passed" : "");
+  };
+
+  const launch = ([a, b]: [number, number]) => {
+    if (!porkchop || a < passed) return;
+    const { depart, arrive } = porkchopTimes(porkchop.spec);
+    const { from, to } = porkchop.spec;
+    postSim({ type: "transfer", from, to, depart: depart(a), arrive: arrive(b) });
+  };
+
+  const compute = () =>
+    postSim({
+      type: "porkchop",
+      spec: {
+        from,
+        to,
+        depart: [simTime, simTime + span],
+        arrive: [simTime + tofMin, simTime + span + tofMax],
+        n: PORKCHOP_N,
+      },
+    });
+
+  const bodySelect = (id: string, onChange: (id: string) => void) => (
+    <select value={id} onChange={(e) => onChange(e.target.value)} style={select}>
+      {targets.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+    </select>
+  );
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div style={{ ...row, gridTemplateColumns: "auto 1fr auto 1fr" }}>
+        <span style={label}>From</span>
+        {bodySelect(from, setFrom)}
+        <span style={label}>to</span>
+        {bodySelect(to, setTo)}
+      </div>
+      <label style={{ ...row, gridTemplateColumns: "1fr auto" }}>
+        <span style={label}>Departures over the next</span>
+        <select value={span} onChange={(e) => setSpan(Number(e.target.value))} style={select}>
+          {DEPART_SPANS.map(d => <option key={d} value={d}>{d} days</option>)}
+        </select>
+      </label>
+      <div style={{ ...row, gridTemplateColumns: "1fr 70px auto 70px auto" }}>
+        <span style={label}>Flight time</span>
+        <input type="number" min={1} value={tofMin} onChange={(e) => setTofMin(Math.max(1, Number(e.target.value)))} style={numInput} />
+        <span style={label}>to</span>
+        <input type="number" min={1} value={tofMax} onChange={(e) => setTofMax(Math.max(1, Number(e.target.value)))} style={numInput} />
+        <span style={label}>d</span>
+      </div>
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <button style={btn} disabled={from === to || tofMax <= tofMin} onClick={compute}>
+          Compute porkchop
+        </button>
+        <select value={metric} onChange={(e) => setMetric(e.target.value as PorkchopMetric)} style={{ ...select, flex: 1 }}>
+          {(Object.keys(PORKCHOP_METRICS) as PorkchopMetric[]).map(m => (
+            <option key={m} value={m}>{PORKCHOP_METRICS[m].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {porkchop && (
+        <>
+          <canvas
+            ref={canvasRef}
+            width={porkchop.spec.n}
+            height={porkchop.spec.n}
+            onMouseMove={(e) => setHover(cellAt(e))}
+            onMouseLeave={() => setHover(null)}
+            onClick={(e) => { const cell = cellAt(e); if (cell) launch(cell); }}
+            style={{
+              width: "100%",
+              aspectRatio: "1",
+              imageRendering: "pixelated",
+              background: "rgba(15,23,42,.6)",
+              borderRadius: 6,
+              cursor: "crosshair",
+            }}
+          />
+          <small style={{ color: "#94a3b8", display: "flex", justifyContent: "space-between" }}>
+            <span>departure →</span>
+            <span>arrival ↑</span>
+          </small>
+          <small style={{ color: "#cbd5e1" }}>
+            {bodies.find(b => b.id === porkchop.spec.from)?.name} → {bodies.find(b => b.id === porkchop.spec.to)?.name}
+            {" · "}
+            {hover ? describe(hover) : best >= 0
+              ? <>best {describe([Math.floor(best / porkchop.spec.n), best % porkchop.spec.n])}</>
+              : "no transfers in this window"}
+          </small>
+          {transfer && (
+            <small style={{ color: "error" in transfer ? "#fca5a5" : "#cbd5e1" }}>
+              {"error" in transfer
+                ? <>Not launched: {transfer.error}.</>
+                : <>Launched {formatUtc(epochJD + transfer.depart).slice(0, 10)} with C3{" "}
+                  <span style={value}>{transfer.c3.toFixed(2)}</span> km²/s² from the edge of the sphere of influence.</>}
+            </small>
+          )}
+          <small style={{ color: "#94a3b8" }}>
+            Single-revolution prograde Lambert arcs around the Sun, with both bodies on their current
+            osculating orbits. Click a cell to propagate to its departure date and launch the payload
+            from the edge of the departure body&apos;s sphere of influence, on the arc re-solved from there
+            and fast enough to climb out of its pull; the n-body run then shows how well the two-body plan
+            holds up. Departures already passed (dimmed) can&apos;t be launched: recompute after the clock has moved.
+          </small>
+        </>
+      )}
+    </div>
+  );
+}
+
+/** Download `text` as a file called `name`. */
+function download(name: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function ScenarioPanel() {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [status, setStatus] = useState<{ ok: boolean; lines: string[] } | null>(null);
+
+  const exportScenario = async () => {
+    let t: number, bodies: BodyInit[];
+    try {
+      ({ t, bodies } = await requestBodyInits());
+    } catch (e) {
+      setStatus({ ok: false, lines: [`Export failed: ${(e as Error).message}.`] });
+      return;
+    }
+    const s = useSim.getState();
+    const scenario = makeScenario({
+      t,
+      epochJD: s.epochJD,
+      bodies,
+      settings: {
+        integrator: s.integrator,
+        massScale: s.massScale,
+        velScale: s.velScale,
+        tolerance: s.tolerance,
+        forceSolver: s.forceSolver,
+        bhTheta: s.bhTheta,
+        collisions: s.collisions,
+        gr: s.gr,
+        perihelionBody: s.perihelionBody,
+      },
+      burns: s.burns,
+      display: s.display,
+    });
+    download(`scenario-${formatUtc(scenario.epochJD!).slice(0, 10)}.json`, JSON.stringify(scenario, null, 2));
+    setStatus({ ok: true, lines: [`Exported ${bodies.length} bodies at ${formatUtc(scenario.epochJD!)}.`] });
+  };
+
+  const importFile = async (file: File) => {
+    const parsed = parseScenarioText(await file.text());
+    if ("errors" in parsed) {
+      setStatus({ ok: false, lines: [`${file.name} was not loaded:`, ...parsed.errors] });
+      return;
+    }
+    const { scenario } = parsed;
+    loadScenario(scenario);
+    setStatus({ ok: true, lines: [`Loaded ${scenario.name ?? file.name}: ${scenario.bodies.length} bodies.`] });
+  };
+
+  return (
+    <>
+      <small style={{ color: "#94a3b8" }}>
+        Save the current state as JSON (format version {SCENARIO_VERSION}): bodies with their masses, positions,
+        velocities and looks, the date, physics settings, pending burns and display settings. Importing one replaces
+        the running system; Reset System goes back to the selected preset.
+      </small>
+      <div style={{ display: "flex", gap: 6 }}>
+        <button style={btn} onClick={exportScenario}>Export</button>
+        <button style={btn} onClick={() => fileRef.current?.click()}>Import…</button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) importFile(file);
+          }}
+        />
+      </div>
+      {status && (
+        <div style={{ display: "grid", gap: 2, fontSize: 11, color: status.ok ? "#94a3b8" : "#fca5a5" }}>
+          {status.lines.map((line, k) => (
+            <span key={k} style={{ fontFamily: k > 0 ? "monospace" : undefined, wordBreak: "break-word" }}>{line}</span>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+/* ---------- Body editor: change, add and delete bodies without a reset ---------- */
+type StateMode = "cartesian" | "elements";
+type Triple = [string, string, string];
+type EditorForm = {
+  name: string;
+  color: string;
+  radius: string;
+  mass: string;
+  pos: Triple;
+  vel: Triple;
+  el: { a: string; e: string; i: string; Omega: string; w: string; nu: string };
+};
+type EditorField = "name" | "color" | "radius" | "mass" | "state";
+
+const NEW_BODY = "";
+const ELEMENT_FIELDS: [keyof EditorForm["el"], string][] = [
+  ["a", "a (AU)"], ["e", "e"], ["i", "i (°)"], ["Omega", "Ω (°)"], ["w", "ω (°)"], ["nu", "ν (°)"],
+];
+const fmtNum = (x: number) => String(Number(x.toPrecision(10)));
+
+/** Editor fields for body `id` as it is in the latest snapshot, state relative to `refId` ("" = barycentric). */
+function readBody(id: string, refId: string): EditorForm | null {
+  const { bodies, masses, massScale } = useSim.getState();
+  const snap = frames.next;
+  const i = bodies.findIndex(b => b.id === id);
+  const r = bodies.findIndex(b => b.id === refId);
+  if (i < 0 || !snap || snap.pos.length < 3 * bodies.length) return null;
+  const rel = (buf: Float64Array) => [0, 1, 2].map(c => buf[3*i + c] - (r >= 0 ? buf[3*r + c] : 0));
+  const pos = rel(snap.pos), vel = rel(snap.vel);
+  const mu = r >= 0 ? G * (masses[i] + masses[r]) * massScale : 0;
+  const el = mu > 0 && r !== i ? stateToElements(pos, vel, mu) : null;
+  return {
+    name: bodies[i].name,
+    color: bodies[i].color,
+    radius: fmtNum(bodies[i].radius),
+    mass: fmtNum(masses[i]),
+    pos: pos.map(fmtNum) as Triple,
+    vel: vel.map(fmtNum) as Triple,
+    el: {
+      a: el ? fmtNum(el.a) : "",
+      e: el ? fmtNum(el.e) : "",
+      i: el ? fmtNum(el.i * DEG) : "",
+      Omega: el ? fmtNum(el.Omega * DEG) : "",
+      w: el ? fmtNum(el.w * DEG) : "",
+      nu: el ? fmtNum(el.nu * DEG) : "",
+    },
+  };
+}
+
+function newBodyForm(): EditorForm {
+  return {
+    name: "New body",
+    color: "#a78bfa",
+    radius: "0.008",
+    mass: "3e-6",
+    pos: ["1", "0", "0"],
+    vel: ["0", "0.0172", "0"],
+    el: { a: "1", e: "0", i: "0", Omega: "0", w: "0", nu: "0" },
+  };
+}
+
+/** Lower-case id from a display name, made unique among `taken`. */
+function bodyId(name: string, taken: string[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "body";
+  let id = base;
+  for (let k = 2; taken.includes(id); k++) id = `${base}-${k}`;
+  return id;
+}
+
+function BodyEditor() {
+  const bodies = useSim(s => s.bodies);
+  const [selId, setSelId] = useState<string>(NEW_BODY);
+  const [mode, setMode] = useState<StateMode>("elements");
+  const [refId, setRefId] = useState("sun");
+  const [form, setForm] = useState<EditorForm>(newBodyForm);
+  const [dirty, setDirty] = useState<Set<EditorField>>(new Set());
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const pendingId = useRef<string | null>(null); // added, not yet in the worker's body list
+  const isNew = selId === NEW_BODY;
+  const exists = bodies.some(b => b.id === selId);
+  const refs = bodies.filter(b => b.id !== selId);
+
+  // a moon's frame defaults to its planet, anything else to the Sun (or the first other body)
+  const defaultRef = (id: string, m = mode) => {
+    const parent = bodies.find(b => b.id === id)?.parent;
+    if (parent) return parent;
+    if (id !== "sun" && bodies.some(b => b.id === "sun")) return "sun";
+    return m === "cartesian" ? "" : bodies.find(b => b.id !== id)?.id ?? "";
+  };
+
+  const reload = (id = selId, ref = refId) => {
+    setForm((id === NEW_BODY ? null : readBody(id, ref)) ?? newBodyForm());
+    setDirty(new Set());
+  };
+
+  // pick up the body's current values whenever the selection changes (or a new one appears)
+  useEffect(() => {
+    if (!isNew && !exists) {
+      if (pendingId.current !== selId) setSelId(NEW_BODY); // merged away or a new system
+      return;
+    }
+    if (pendingId.current === selId) pendingId.current = null;
+    reload();
+  }, [selId, exists]);
+
+  const pick = (id: string) => {
+    setSelId(id);
+    setRefId(defaultRef(id));
+    setStatus(null);
+  };
+
+  const edit = (field: EditorField, patch: Partial<EditorForm>) => {
+    setForm(f => ({ ...f, ...patch }));
+    setDirty(d => new Set(d).add(field));
+  };
+
+  const changeRef = (ref: string) => {
+    setRefId(ref);
+    // unedited numbers follow the new frame; edited ones are kept (and applied in it)
+    if (!isNew && !dirty.has("state")) reload(selId, ref);
+  };
+
+  const changeMode = (m: StateMode) => {
+    setMode(m);
+    if (m === "elements" && !refId) changeRef(defaultRef(selId, m));
+  };
+
+  const apply = () => {
+    const errors: string[] = [];
+    const num = (text: string, what: string) => {
+      const x = Number(text);
+      if (text.trim() === "" || !Number.isFinite(x)) errors.push(`${what}: not a number`);
+      return x;
+    };
+    const { masses, massScale } = useSim.getState();
+    const mass = num(form.mass, "mass");
+    const radius = num(form.radius, "radius");
+    if (mass < 0) errors.push("mass: must be ≥ 0");
+    if (!(radius > 0)) errors.push("radius: must be > 0");
+    if ((mode === "elements" || refId) && !bodies.some(b => b.id === refId)) errors.push("frame: pick a body");
+
+    let position: [number, number, number] | undefined, velocity: [number, number, number] | undefined;
+    if (isNew || dirty.has("state")) {
+      if (mode === "cartesian") {
+        position = form.pos.map((t, c) => num(t, `position ${"xyz"[c]}`)) as [number, number, number];
+        velocity = form.vel.map((t, c) => num(t, `velocity ${"xyz"[c]}`)) as [number, number, number];
+      } else {
+        const [a, e, i, Omega, w, nu] = ELEMENT_FIELDS.map(([k, what]) => num(form.el[k], what));
+        const r = bodies.findIndex(b => b.id === refId);
+        const mu = G * ((masses[r] ?? 0) + Math.max(0, mass)) * massScale;
+        if (e < 0) errors.push("e: must be ≥ 0");
+        else if (e === 1) errors.push("e = 1 (parabola) can't be given by a; use 0.9999 or 1.0001");
+        else if (e < 1 ? !(a > 0) : !(a < 0)) errors.push(e < 1 ? "a: must be > 0 for e < 1" : "a: must be < 0 for e > 1");
+        if (!(mu > 0)) errors.push("frame: the reference body needs mass for elements");
+        if (!errors.length) {
+          const s = trueAnomalyToState({ a, e, i: i / DEG, Omega: Omega / DEG, w: w / DEG }, nu / DEG, mu);
+          position = s.pos;
+          velocity = s.vel;
+        }
+      }
+    }
+    if (errors.length) {
+      setStatus({ ok: false, text: errors.join("; ") });
+      return;
+    }
+
+    const relativeTo = refId && (position || velocity) ? refId : undefined;
+    if (isNew) {
+      const id = bodyId(form.name, bodies.map(b => b.id));
+      const body: BodyInit = { id, name: form.name || id, color: form.color, radius, mass, position: position!, velocity: velocity! };
+      if (relativeTo && relativeTo !== "sun") body.parent = relativeTo;
+      postSim({ type: "addBody", body, relativeTo });
+      pendingId.current = id;
+      setSelId(id);
+      setStatus({ ok: true, text: `Added ${body.name}.` });
+    } else {
+      const patch: BodyEdit = {};
+      if (dirty.has("name")) patch.name = form.name;
+      if (dirty.has("color")) patch.color = form.color;
+      if (dirty.has("radius")) patch.radius = radius;
+      if (dirty.has("mass")) patch.mass = mass;
+      if (position && velocity) Object.assign(patch, { position, velocity, relativeTo });
+      if (!Object.keys(patch).length) { setStatus({ ok: true, text: "Nothing changed." }); return; }
+      postSim({ type: "editBody", id: selId, edit: patch });
+      setDirty(new Set());
+      setStatus({ ok: true, text: "Applied." });
+    }
+  };
+
+  const remove = () => {
+    postSim({ type: "removeBody", id: selId });
+    pick(NEW_BODY);
+    setStatus({ ok: true, text: `Deleted ${bodies.find(b => b.id === selId)?.name ?? selId}.` });
+  };
+
+  const grid3 = { display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 4 } as const;
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <small style={{ color: "#94a3b8" }}>
+        Edits go into the running system without a reset, paused or live; only the fields you touch are sent.
+        Values are read when you pick a body (Reload re-reads them). Positions in AU, velocities in AU/day,
+        masses in Msun (Earth ≈ 3.0e-6, Jupiter ≈ 9.5e-4).
+      </small>
+      <label style={{ ...row, gridTemplateColumns: "1fr auto" }}>
+        <select value={selId} onChange={(e) => pick(e.target.value)} style={select}>
+          <option value={NEW_BODY}>+ New body</option>
+          {bodies.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+        {!isNew && <button style={btn} onClick={() => reload()}>Reload</button>}
+      </label>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr auto auto", gap: 6, alignItems: "center" }}>
+        <input value={form.name} onChange={(e) => edit("name", { name: e.target.value })} style={numInput} title="Name" />
+        <input type="color" value={form.color} onChange={(e) => edit("color", { color: e.target.value })} title="Color" />
+        <input value={form.radius} onChange={(e) => edit("radius", { radius: e.target.value })}
+          style={{ ...numInput, width: 70 }} title="Visual radius (scene units)" />
+      </div>
+      <label style={{ ...row, gridTemplateColumns: "auto 1fr" }}>
+        <span style={label}>Mass (Msun)</span>
+        <input value={form.mass} onChange={(e) => edit("mass", { mass: e.target.value })} style={numInput} />
+      </label>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6 }}>
+        <select value={mode} onChange={(e) => changeMode(e.target.value as StateMode)} style={select}>
+          <option value="elements">Orbital elements</option>
+          <option value="cartesian">Position / velocity</option>
+        </select>
+        <select value={refId} onChange={(e) => changeRef(e.target.value)} style={select} title="Reference frame">
+          {mode === "cartesian" && <option value="">Barycentric</option>}
+          {refs.map(b => <option key={b.id} value={b.id}>{mode === "elements" ? "around " : "relative to "}{b.name}</option>)}
+        </select>
+      </div>
+      {mode === "cartesian" ? (
+        <>
+          <span style={label}>Position (AU)</span>
+          <div style={grid3}>
+            {form.pos.map((t, c) => (
+              <input key={c} value={t} style={numInput} title={"xyz"[c]}
+                onChange={(e) => edit("state", { pos: form.pos.map((x, k) => (k === c ? e.target.value : x)) as Triple })} />
+            ))}
+          </div>
+          <span style={label}>Velocity (AU/day)</span>
+          <div style={grid3}>
+            {form.vel.map((t, c) => (
+              <input key={c} value={t} style={numInput} title={"xyz"[c]}
+                onChange={(e) => edit("state", { vel: form.vel.map((x, k) => (k === c ? e.target.value : x)) as Triple })} />
+            ))}
+          </div>
+        </>
+      ) : (
+        <div style={grid3}>
+          {ELEMENT_FIELDS.map(([k, what]) => (
+            <label key={k} style={row}>
+              <span style={label}>{what}</span>
+              <input value={form.el[k]} style={numInput}
+                onChange={(e) => edit("state", { el: { ...form.el, [k]: e.target.value } })} />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 6 }}>
+        <button style={btn} onClick={apply}>{isNew ? "Add body" : "Apply"}</button>
+        {!isNew && <button style={btn} onClick={remove}>Delete</button>}
+      </div>
+      {status && <small style={{ color: status.ok ? "#94a3b8" : "#fca5a5" }}>{status.text}</small>}
+    </div>
+  );
+}
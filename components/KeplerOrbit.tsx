@@ -1,35 +1,90 @@
 "use client";
 import { Line } from "@react-three/drei";
 import type { KeplerElements } from "~/lib/kepler";
-import { ellipsePoints } from "~/lib/kepler";
+import { CONIC_MAX_R, ellipsePoints, orbitPoint } from "~/lib/kepler";
+
+type Vec3 = [number,number,number];
 
 export default function KeplerOrbit({
-  parentPos,    // [x,y,z] AU of the primary body (e.g., Earth)
+  parentPos = [0, 0, 0], // [x,y,z] AU of the primary body (e.g., Earth)
   elements,     // Kepler elements relative to parent
   color = "#7dd3fc",
   samples = 512,
+  maxR = CONIC_MAX_R, // open orbits (parabolas, hyperbolae) are drawn out to this distance
   linewidth = 1,
   opacity = 0.8,
+  markers = false, // periapsis, apoapsis and the ascending node (with the line of nodes)
 }: {
-  parentPos: [number,number,number];
+  parentPos?: Vec3;
   elements: KeplerElements;
   color?: string;
   samples?: number;
+  maxR?: number;
   linewidth?: number;
   opacity?: number;
+  markers?: boolean;
 }) {
-  const pts = ellipsePoints(elements, samples).map(([x,y,z]) => [
-    x + parentPos[0], y + parentPos[1], z + parentPos[2],
-  ]) as [number,number,number][];
+  const shift = ([x,y,z]: Vec3): Vec3 => [x + parentPos[0], y + parentPos[1], z + parentPos[2]];
+  const pts = ellipsePoints(elements, samples, maxR).map(shift);
+  if (pts.length < 2) return null;
+
+  // marker size follows the orbit so it reads at any zoom that shows the whole
+  // ellipse; open orbits have no finite a, so they scale with periapsis instead
+  const { e, w } = elements;
+  const q = orbitRadius(elements, 0);
+  const size = 0.012 * (e < 1 ? elements.a : q);
+  const apoapsis = e < 1 && orbitRadius(elements, Math.PI) <= maxR;
+  // the ascending node is on an open orbit only if ν = −ω is inside the asymptotes
+  const rNode = orbitRadius(elements, -w);
+  const inclined = Math.sin(elements.i) > 1e-6 && rNode > 0 && rNode <= maxR;
+
+  return (
+    <group>
+      <Line
+        points={pts}
+        color={color}
+        linewidth={linewidth}
+        transparent
+        opacity={opacity}
+        depthWrite={false}
+      />
+      {markers && (
+        <>
+          <Marker at={shift(orbitPoint(elements, 0))} size={size} color="#f472b6" />
+          {apoapsis && <Marker at={shift(orbitPoint(elements, Math.PI))} size={size} color="#a78bfa" />}
+          {inclined && (
+            <>
+              <Marker at={shift(orbitPoint(elements, -w))} size={size} color="#34d399" />
+              <Line
+                points={[parentPos, shift(orbitPoint(elements, -w))]}
+                color="#34d399"
+                linewidth={1}
+                dashed
+                dashSize={size * 2}
+                gapSize={size * 2}
+                transparent
+                opacity={0.6}
+                depthWrite={false}
+              />
+            </>
+          )}
+        </>
+      )}
+    </group>
+  );
+}
+
+/** Distance from the focus at true anomaly ν; ≤ 0 or infinite where an open orbit doesn't reach. */
+function orbitRadius(el: KeplerElements, nu: number): number {
+  const [x, y, z] = orbitPoint(el, nu);
+  return 1 + el.e * Math.cos(nu) > 0 ? Math.hypot(x, y, z) : -1;
+}
 
+function Marker({ at, size, color }: { at: Vec3; size: number; color: string }) {
   return (
-    <Line
-      points={pts}
-      color={color}
-      linewidth={linewidth}
-      transparent
-      opacity={opacity}
-      depthWrite={false}
-    />
+    <mesh position={at}>
+      <sphereGeometry args={[size, 12, 12]} />
+      <meshBasicMaterial color={color} transparent opacity={0.9} depthWrite={false} />
+    </mesh>
   );
 }
@@ -2,18 +2,16 @@
 import * as THREE from "three";
 import PlanetMesh from "~/components/PlanetMesh";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
-import { OrbitControls, Line, Stars, Billboard, Text } from "@react-three/drei";
-import { useEffect, useMemo, useRef, useState, Fragment } from "react";
-import { Body, makeCircularBodies /*, ensurePayloadGEO */ } from "~/lib/bodies";
-// import KeplerOrbit from "~/components/KeplerOrbit"; // keep if/when you render analytic orbits
+import { OrbitControls, Stars, Billboard, Text } from "@react-three/drei";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { bodyKind, centralBody, defaultDisplay, G, type Body, type BodyKind } from "~/lib/bodies";
+import KeplerOrbit from "~/components/KeplerOrbit";
+import { stateToElements, type KeplerElements } from "~/lib/kepler";
+import { useShallow } from "zustand/react/shallow";
 import { useSim } from "~/state/sim";
-import {
-  seedCircularVelocities,
-  zeroSystemMomentum,
-  stepLeapfrog,
-  stepRK4,
-  type ExtraAccel,
-} from "~/lib/physics";
+import { frames, loadScenario, postSim, samplePositions, startSimWorker } from "~/state/simWorker";
+import { makePreset } from "~/lib/presets";
+import { indexOfBody } from "~/lib/simstate";
 
 /** Camera-locked starfield (true 3D background). */
 function StarBackground() {
@@ -55,200 +53,337 @@ function StarBackground() {
   );
 }
 
-// Prefill trail buffer with current position so first frame isn't a line from (0,0,0)
-function initTrail(arr: Float32Array, pos: [number, number, number]) {
-  for (let i = 0; i < arr.length; i += 3) {
-    arr[i + 0] = pos[0];
-    arr[i + 1] = pos[1];
-    arr[i + 2] = pos[2];
+/** What the scene currently shows: body metadata + interpolated positions. */
+type View = { bodies: Body[]; pos: Float64Array };
+type ViewRef = React.MutableRefObject<View>;
+
+/**
+ * Trail ring buffer drawn as a plain THREE.Line.
+ * The buffer holds 2×len vertices and every sample is written twice (slot k and
+ * k+len), so the newest `len` points are always contiguous and a draw range is
+ * enough to render them in order — no per-frame copy or React update.
+ */
+type Trail = { line: THREE.Line; buf: Float32Array; len: number; idx: number; primed: boolean };
+
+function makeTrail(len: number, color: string): Trail {
+  const buf = new Float32Array(len * 2 * 3);
+  const geom = new THREE.BufferGeometry();
+  geom.setAttribute("position", new THREE.BufferAttribute(buf, 3).setUsage(THREE.DynamicDrawUsage));
+  geom.setDrawRange(0, len);
+  const mat = new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.9, depthWrite: false });
+  const line = new THREE.Line(geom, mat);
+  line.frustumCulled = false;
+  return { line, buf, len, idx: 0, primed: false };
+}
+
+function pushTrail(t: Trail, x: number, y: number, z: number) {
+  if (!t.primed) {
+    // Prefill with the first position so the line doesn't start at (0,0,0)
+    for (let k = 0; k < t.buf.length; k += 3) {
+      t.buf[k + 0] = x;
+      t.buf[k + 1] = y;
+      t.buf[k + 2] = z;
+    }
+    t.primed = true;
   }
+  const a = t.idx * 3, b = (t.idx + t.len) * 3;
+  t.buf[a] = t.buf[b] = x;
+  t.buf[a + 1] = t.buf[b + 1] = y;
+  t.buf[a + 2] = t.buf[b + 2] = z;
+  t.idx = (t.idx + 1) % t.len;
+  t.line.geometry.setDrawRange(t.idx, t.len);
+  (t.line.geometry.getAttribute("position") as THREE.BufferAttribute).needsUpdate = true;
 }
 
-function Scene({ controlsRef }: { controlsRef: React.MutableRefObject<any> }) {
-  const {
-    running, dt, timeScale, integrator, trails, massScale, velScale,
-    resetSignal, trailLen,
-  } = useSim();
-
-  const [bodies, setBodies] = useState<Body[]>(() => {
-    const init = makeCircularBodies();
-    seedCircularVelocities(init, "sun", false);
-    zeroSystemMomentum(init);
-    return init;
+/** Replace a trail's contents with `path` (flat xyz, oldest first; only the newest `len` points fit). */
+function refillTrail(t: Trail, path: Float32Array) {
+  t.primed = false;
+  t.idx = 0;
+  for (let k = Math.max(0, path.length / 3 - t.len); k < path.length / 3; k++) {
+    pushTrail(t, path[3 * k], path[3 * k + 1], path[3 * k + 2]);
+  }
+}
+
+function disposeTrail(t: Trail) {
+  t.line.geometry.dispose();
+  (t.line.material as THREE.Material).dispose();
+}
+
+/** Massless test particles drawn as a single THREE.Points (one vertex per particle). */
+type ParticleCloud = { points: THREE.Points; buf: Float32Array };
+
+function makeParticleCloud(n: number): ParticleCloud | null {
+  if (n <= 0) return null;
+  const buf = new Float32Array(3 * n);
+  const geom = new THREE.BufferGeometry();
+  geom.setAttribute("position", new THREE.BufferAttribute(buf, 3).setUsage(THREE.DynamicDrawUsage));
+  const mat = new THREE.PointsMaterial({
+    color: "#cbd5e1",
+    size: 2,
+    sizeAttenuation: false,
+    transparent: true,
+    opacity: 0.75,
+    depthWrite: false,
   });
+  const points = new THREE.Points(geom, mat);
+  points.frustumCulled = false;
+  return { points, buf };
+}
+
+function disposeParticleCloud(c: ParticleCloud | null) {
+  if (!c) return;
+  c.points.geometry.dispose();
+  (c.points.material as THREE.Material).dispose();
+}
+
+/** Exaggerated body spheres (radius × this) read well at solar-system scale ... */
+const PLANET_SCALE = 8.5;
+/** ... but with the zoom aid never look bigger than this (rad, apparent radius), so moons stay outside their planet up close. */
+const ZOOM_AID_ANGLE = 0.015;
+/** Labels keep their size beyond this camera distance (AU) and shrink with it closer in. */
+const LABEL_FULL_DIST = 3;
+/** Label colour for bodies without a colour override. */
+const LABEL_COLOR: Record<BodyKind, string> = { star: "#ffe9a6", planet: "#e5e7eb", moon: "#e5e7eb" };
+
+function Scene({ viewRef }: { viewRef: ViewRef }) {
+  const { trails, resetSignal, display, forceCheckSignal, zoomAid, masses } = useSim(useShallow(s => ({
+    trails: s.trails, resetSignal: s.resetSignal, display: s.display,
+    forceCheckSignal: s.forceCheckSignal, zoomAid: s.zoomAid, masses: s.masses,
+  })));
+  const { camera } = useThree();
 
-  // trails
-  const trailsRef = useRef<Map<string, Float32Array>>(new Map());
-  const trailIdxRef = useRef<Map<string, number>>(new Map());
+  // Metadata only: React re-renders when the set of bodies changes, never per frame.
+  const [bodies, setBodies] = useState<Body[]>([]);
+  const groupRefs = useRef<(THREE.Group | null)[]>([]);
+  const meshRefs = useRef<(THREE.Group | null)[]>([]);
+  const labelRefs = useRef<(THREE.Group | null)[]>([]);
+
+  // Bumped for every new system (reset); merges/deletions keep the generation.
+  const [generation, setGeneration] = useState(0);
+
+  const [particles, setParticles] = useState(0);
+
+  // Physics runs in a worker; it tells us when the body list changes.
+  useEffect(() => startSimWorker((msg) => {
+    setBodies(msg.bodies);
+    setParticles(msg.particles);
+    if (msg.reset) setGeneration(g => g + 1);
+  }), []);
 
-  // Reset
   useEffect(() => {
-    const reset = makeCircularBodies();
-    seedCircularVelocities(reset, "sun", false);
-    zeroSystemMomentum(reset);
-    setBodies(reset);
-    trailsRef.current = new Map();
-    trailIdxRef.current = new Map();
+    viewRef.current = { bodies, pos: new Float64Array(3 * (bodies.length + particles)) };
+  }, [bodies, particles, viewRef]);
+
+  const cloud = useMemo(() => makeParticleCloud(particles), [particles]);
+  useEffect(() => () => disposeParticleCloud(cloud), [cloud]);
+
+  // The selected preset is loaded on start and by every Reset; the accuracy check is forwarded to the worker
+  useEffect(() => {
+    const { preset, epochJD } = useSim.getState();
+    loadScenario(makePreset(preset, epochJD));
   }, [resetSignal]);
 
-  // Reallocate trail buffers when length changes
   useEffect(() => {
-    if (!trails) return;
+    if (forceCheckSignal > 0) postSim({ type: "forceCheck" });
+  }, [forceCheckSignal]);
+
+  // trails (rebuilt for a new system; kept across collisions and length changes of other bodies)
+  const trailsRef = useRef<{ generation: number; map: Map<string, Trail> }>({ generation: -1, map: new Map() });
+  const lastSeqRef = useRef(0);
+  const lastJumpsRef = useRef(0);
+
+  const trailMap = useMemo(() => {
+    const map = new Map<string, Trail>();
+    if (!trails) return map;
+    const prev = trailsRef.current.generation === generation ? trailsRef.current.map : new Map<string, Trail>();
     for (const b of bodies) {
-      const desired = Math.max(0, Math.floor(trailLen[b.id] ?? 2000));
-      const existing = trailsRef.current.get(b.id);
-      const have = existing ? existing.length / 3 : 0;
-      if (have !== desired) {
-        if (desired === 0) {
-          trailsRef.current.delete(b.id);
-          trailIdxRef.current.delete(b.id);
-        } else {
-          const arr = new Float32Array(desired * 3);
-          initTrail(arr, b.position);
-          trailsRef.current.set(b.id, arr);
-          trailIdxRef.current.set(b.id, 0);
-        }
-      }
-    }
-  }, [trailLen, bodies, trails]);
-
-  useFrame(() => {
-    if (!running) return;
-
-    const next = bodies.map(b => ({
-      ...b,
-      position: [...b.position] as [number, number, number],
-      velocity: [...b.velocity] as [number, number, number],
-    }));
-
-    const extra: ExtraAccel = undefined;
-    const safeDt = Math.min(dt, 0.25);
-    const safeScale = Math.min(timeScale, 100);
-
-    if (integrator === "rk4") {
-      stepRK4(next, safeDt, safeScale, massScale, velScale, false, 0, extra);
-    } else {
-      stepLeapfrog(next, safeDt, safeScale, massScale, velScale, false, 0, extra);
+      const d = display[b.id] ?? defaultDisplay(b);
+      const desired = Math.max(0, Math.floor(d.trailLen));
+      if (desired < 2) continue;
+      const old = prev.get(b.id);
+      const color = d.color ?? b.color;
+      if (old && old.len === desired) (old.line.material as THREE.LineBasicMaterial).color.set(color); // edited color
+      map.set(b.id, old && old.len === desired ? old : makeTrail(desired, color));
     }
+    return map;
+  }, [bodies, generation, display, trails]);
 
-    setBodies(next);
-
-    if (trails) {
-      for (const b of next) {
-        const desired = Math.max(0, Math.floor(trailLen[b.id] ?? 2000));
-        if (desired === 0) continue;
-
-        let arr = trailsRef.current.get(b.id);
-        let idx = trailIdxRef.current.get(b.id) ?? 0;
+  useEffect(() => {
+    const old = trailsRef.current.map;
+    trailsRef.current = { generation, map: trailMap };
+    old.forEach((t, id) => { if (trailMap.get(id) !== t) disposeTrail(t); });
+  }, [trailMap, generation]);
 
-        if (!arr || arr.length !== desired * 3) {
-          arr = new Float32Array(desired * 3);
-          initTrail(arr, b.position);
-          trailsRef.current.set(b.id, arr);
-          idx = 0;
+  useFrame(() => {
+    const view = viewRef.current;
+    if (view.bodies !== bodies || !samplePositions(performance.now(), view.pos)) return;
+    const pos = view.pos;
+
+    // one trail sample per physics snapshot (not per display frame)
+    const next = frames.next;
+    const jumped = frames.jumps !== lastJumpsRef.current;
+    lastJumpsRef.current = frames.jumps;
+    if (trails && next && next.seq !== lastSeqRef.current && next.pos.length === pos.length) {
+      lastSeqRef.current = next.seq;
+      const map = trailsRef.current.map;
+      for (let i = 0; i < bodies.length; i++) {
+        const t = map.get(bodies[i].id);
+        if (!t) continue;
+        // after a jump, restart the trail (from the recorded path after a seek)
+        // instead of streaking across the gap
+        if (jumped) {
+          const path = frames.trails?.[bodies[i].id];
+          if (path) refillTrail(t, path);
+          else t.primed = false;
         }
-
-        arr[idx * 3 + 0] = b.position[0];
-        arr[idx * 3 + 1] = b.position[1];
-        arr[idx * 3 + 2] = b.position[2];
-        idx = desired > 0 ? (idx + 1) % desired : 0;
-        trailIdxRef.current.set(b.id, idx);
+        pushTrail(t, next.pos[3 * i], next.pos[3 * i + 1], next.pos[3 * i + 2]);
       }
     }
-  });
 
-  // Publish latest body positions to OrbitControls via the ref for O(1) lookup
-  useEffect(() => {
-    if (!controlsRef.current) return;
-    const map = new Map<string, [number, number, number]>();
-    for (const b of bodies) {
-      // store a copy to avoid accidental mutation side-effects
-      map.set(b.id, [b.position[0], b.position[1], b.position[2]]);
+    // Move meshes + labels straight from the buffers; the zoom aid shrinks
+    // both as the camera closes in, so moon systems resolve
+    for (let i = 0; i < bodies.length; i++) {
+      groupRefs.current[i]?.position.set(pos[3 * i], pos[3 * i + 1], pos[3 * i + 2]);
+      const d = zoomAid ? camera.position.distanceTo(groupRefs.current[i]?.position ?? camera.position) : Infinity;
+      meshRefs.current[i]?.scale.setScalar(Math.min(1, ZOOM_AID_ANGLE * d / (bodies[i].radius * PLANET_SCALE)));
+      labelRefs.current[i]?.scale.setScalar(Math.min(1, d / LABEL_FULL_DIST));
+    }
+
+    // Test particles follow the bodies in the same buffer
+    if (cloud && cloud.buf.length === pos.length - 3 * bodies.length) {
+      cloud.buf.set(pos.subarray(3 * bodies.length));
+      (cloud.points.geometry.getAttribute("position") as THREE.BufferAttribute).needsUpdate = true;
     }
-    (controlsRef.current as any).__bodiesMap = map;
-  }, [bodies, controlsRef]);
+  });
 
-  const PLANET_SCALE = 8.5;
   const LABEL_Z_OFFSET = 0.20;
 
+  // Lights ride with the stars (the central body when there is none), so they follow the interpolated positions
+  const kinds = bodies.map((b, i) => bodyKind(b, masses[i] ?? 0));
+  const lit = kinds.includes("star") ? undefined : centralBody(bodies, masses);
+
   return (
     <>
       <color attach="background" args={["#020409"]} />
       <StarBackground />
 
-      {/* Bodies rendered via PlanetMesh + labels */}
-      {bodies.map(b => {
-        const bodyForView = { ...b, radius: b.radius * PLANET_SCALE };
-        const fontSize =
-          b.id === "sun" ? 0.06 :
-          b.id === "jupiter" || b.id === "saturn" ? 0.08 :
-          0.06;
+      {/* Bodies rendered via PlanetMesh + labels; positioned per frame through groupRefs */}
+      {bodies.map((b, i) => {
+        const d = display[b.id] ?? defaultDisplay(b);
+        const bodyForView = { ...b, color: d.color ?? b.color, radius: b.radius * PLANET_SCALE };
+        const kind = kinds[i];
 
         return (
-          <Fragment key={b.id}>
-            <PlanetMesh body={bodyForView} />
-            <Billboard position={[
-              b.position[0],
-              b.position[1],
-              b.position[2] + LABEL_Z_OFFSET
-            ]}>
-              <Text
-                fontSize={fontSize}
-                color={b.id === "sun" ? "#ffe9a6" : "#e5e7eb"}
-                outlineWidth={0.004}
-                outlineColor="rgba(0,0,0,0.85)"
-                anchorX="center"
-                anchorY="middle"
-              >
-                {b.name ?? b.id}
-              </Text>
-            </Billboard>
-          </Fragment>
+          <group key={b.id} ref={(g) => { groupRefs.current[i] = g; }}>
+            {(kind === "star" || b.id === lit) && <pointLight intensity={2.0} />}
+            <group ref={(g) => { meshRefs.current[i] = g; }}>
+              <PlanetMesh body={bodyForView} glow={kind === "star"} />
+            </group>
+            <group ref={(g) => { labelRefs.current[i] = g; }} visible={d.label}>
+              <Billboard position={[0, 0, LABEL_Z_OFFSET]}>
+                <Text
+                  fontSize={d.labelSize}
+                  color={d.color ?? LABEL_COLOR[kind]}
+                  outlineWidth={0.004}
+                  outlineColor="rgba(0,0,0,0.85)"
+                  anchorX="center"
+                  anchorY="middle"
+                >
+                  {b.name ?? b.id}
+                </Text>
+              </Billboard>
+            </group>
+          </group>
         );
       })}
 
+      {/* Test particles: one draw call for the whole population */}
+      {cloud && <primitive object={cloud.points} />}
+
+      {/* Osculating orbits (per-body toggle) */}
+      <OrbitOverlays bodies={bodies} viewRef={viewRef} />
+
       {/* Trails */}
-      {useMemo(
-        () =>
-          bodies.map(b => {
-            const arr = (trailsRef.current as Map<string, Float32Array>).get(b.id);
-            if (!trails || !arr) return null;
-            const desired = Math.max(0, Math.floor(trailLen[b.id] ?? 2000));
-            if (desired === 0) return null;
-
-            const idx = (trailIdxRef.current as Map<string, number>).get(b.id) ?? 0;
-            const ordered = new Float32Array(arr.length);
-            ordered.set(arr.slice(idx * 3));
-            ordered.set(arr.slice(0, idx * 3), arr.length - idx * 3);
-
-            const pts: [number, number, number][] = [];
-            for (let i = 0; i < ordered.length; i += 3) {
-              pts.push([ordered[i], ordered[i + 1], ordered[i + 2]]);
-            }
-            return (
-              <Line
-                key={`trail-${b.id}`}
-                points={pts}
-                linewidth={1}
-                color={b.color}
-                opacity={0.9}
-                transparent
-                depthWrite={false}
-              />
-            );
-          }),
-        [bodies, trails, trailLen, resetSignal]
-      )}
+      {Array.from(trailMap, ([id, t]) => (
+        <primitive key={`trail-${id}`} object={t.line} />
+      ))}
 
       <ambientLight intensity={0.35} />
-      <pointLight position={[0, 0, 0]} intensity={2.0} />
+    </>
+  );
+}
+
+/** Osculating-orbit overlays are recomputed this often (wall ms), not every frame. */
+const OVERLAY_MS = 250;
+
+
+/**
+ * Current osculating conic of every body with its overlay on, drawn around its
+ * primary. Elements come from the latest worker snapshot; the group follows
+ * the primary's rendered position every frame.
+ */
+function OrbitOverlays({ bodies, viewRef }: { bodies: Body[]; viewRef: ViewRef }) {
+  const { orbitOverlays, masses, massScale, display } = useSim(useShallow(s => ({
+    orbitOverlays: s.orbitOverlays, masses: s.masses, massScale: s.massScale, display: s.display,
+  })));
+  // each body with its overlay on, and the index of its primary: its parent, else the central body
+  const shown = useMemo(() => {
+    const central = centralBody(bodies, masses);
+    return bodies.flatMap((b, i) => {
+      const p = indexOfBody(bodies, b.parent ?? central ?? "");
+      return orbitOverlays[b.id] && p >= 0 && p !== i ? [{ b, i, p }] : [];
+    });
+  }, [bodies, masses, orbitOverlays]);
+  const [elements, setElements] = useState<Record<string, KeplerElements>>({});
+  const groupRefs = useRef<Record<string, THREE.Group | null>>({});
+  const lastRef = useRef(0);
+
+  useFrame(() => {
+    const view = viewRef.current;
+    if (view.bodies !== bodies) return;
+    for (const { b, p } of shown) {
+      groupRefs.current[b.id]?.position.set(view.pos[3 * p], view.pos[3 * p + 1], view.pos[3 * p + 2]);
+    }
+
+    const now = performance.now();
+    const snap = frames.next;
+    if (!shown.length || now - lastRef.current < OVERLAY_MS || !snap || snap.pos.length !== view.pos.length) return;
+    lastRef.current = now;
+    const next: Record<string, KeplerElements> = {};
+    for (const { b, i, p } of shown) {
+      const mu = G * ((masses[i] ?? 0) + (masses[p] ?? 0)) * massScale;
+      if (!(mu > 0)) continue;
+      const r = [0, 1, 2].map(c => snap.pos[3 * i + c] - snap.pos[3 * p + c]);
+      const v = [0, 1, 2].map(c => snap.vel[3 * i + c] - snap.vel[3 * p + c]);
+      const el = stateToElements(r, v, mu);
+      if (el.p > 0) next[b.id] = el; // radial (h = 0) orbits have no conic to draw
+    }
+    setElements(next);
+  });
+
+  return (
+    <>
+      {shown.map(({ b }) => {
+        const el = elements[b.id];
+        return (
+          <group key={b.id} ref={(g) => { groupRefs.current[b.id] = g; }}>
+            {el && <KeplerOrbit elements={el} color={display[b.id]?.color ?? b.color} opacity={0.55} markers />}
+          </group>
+        );
+      })}
     </>
   );
 }
 
 /** Forward-only smoothing of OrbitControls.target toward the focused body (no camera.position fiddling). */
-function CameraFocusController({ controlsRef }: { controlsRef: React.MutableRefObject<any> }) {
-  const focusId = useSim(s => s.focusId);
+function CameraFocusController({
+  controlsRef,
+  viewRef,
+}: {
+  controlsRef: React.MutableRefObject<any>;
+  viewRef: ViewRef;
+}) {
+  const focusId = useSim(s => (s.focusId && s.display[s.focusId]?.focusable !== false ? s.focusId : null));
   const focusLerp = useSim(s => s.focusLerp ?? 0.12);
   const maxStepPerSec = 2.5; // clamp how far the target can move per second
 
@@ -265,12 +400,12 @@ function CameraFocusController({ controlsRef }: { controlsRef: React.MutableRefO
     }
     const smooth = smoothRef.current;
 
-    // where we want to go (focused body or origin)
-    const map = controls.__bodiesMap as Map<string, [number, number, number]> | undefined;
+    // where we want to go (focused body or origin), read from the rendered positions
+    const { bodies, pos } = viewRef.current;
     const desired = new THREE.Vector3(0, 0, 0);
-    if (focusId && map?.has(focusId)) {
-      const p = map.get(focusId)!;
-      desired.set(p[0], p[1], p[2]);
+    const fi = focusId ? indexOfBody(bodies, focusId) : -1;
+    if (fi >= 0) {
+      desired.set(pos[3 * fi], pos[3 * fi + 1], pos[3 * fi + 2]);
     }
 
     // forward-only step: clamp step length per frame to avoid overshoot/oscillation
@@ -306,8 +441,13 @@ export default function OrbitCanvas() {
     camMinDist, camMaxDist, camZoomSpeed,
     camAutoRotate, camAutoRotateSpeed,
     camResetPulse,
-  } = useSim();
+  } = useSim(useShallow(s => ({
+    camMinDist: s.camMinDist, camMaxDist: s.camMaxDist, camZoomSpeed: s.camZoomSpeed,
+    camAutoRotate: s.camAutoRotate, camAutoRotateSpeed: s.camAutoRotateSpeed,
+    camResetPulse: s.camResetPulse,
+  })));
   const controlsRef = useRef<any>(null);
+  const viewRef = useRef<View>({ bodies: [], pos: new Float64Array(0) });
 
   // Reset camera whenever the pulse increments
   useEffect(() => {
@@ -316,7 +456,7 @@ export default function OrbitCanvas() {
 
   return (
     <Canvas
-      camera={{ position: [0, 15, 28], near: 0.05, far: 1000 }}
+      camera={{ position: [0, 15, 28], near: 0.0005, far: 1000 }}
       gl={{
         antialias: true,
         powerPreference: "high-performance",
@@ -338,8 +478,9 @@ export default function OrbitCanvas() {
         autoRotateSpeed={camAutoRotateSpeed}
       />
 
-      <CameraFocusController controlsRef={controlsRef} />
-      <Scene controlsRef={controlsRef} />
+      {/* Scene first so its frame callback (position sampling) runs before the focus controller */}
+      <Scene viewRef={viewRef} />
+      <CameraFocusController controlsRef={controlsRef} viewRef={viewRef} />
     </Canvas>
   );
 }
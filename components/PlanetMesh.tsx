@@ -7,7 +7,8 @@ import type { Body } from "~/lib/bodies";
 import { useSim } from "~/state/sim"; 
 
 type Props = {
-  body: Body; // includes visual radius, color, optional texture & ring
+  body: Body; // includes visual radius, color, optional texture & ring (positioned by the parent group)
+  glow?: boolean; // self-lit in its own colour (stars)
 };
 
 /**
@@ -16,13 +17,14 @@ type Props = {
  * - Rings (if present) remain transparent with alphaMap and depthWrite disabled.
  * - Textures are loaded only when URLs are present (prevents "Could not load: undefined").
  */
-export default function PlanetMesh({ body }: Props) {
+export default function PlanetMesh({ body, glow = false }: Props) {
   const groupRef = useRef<THREE.Group>(null);
   const set = useSim(s => s.set);
   const focusSnapOnSelect = useSim(s => s.focusSnapOnSelect);
 
   const handlePick = (e: any) => {
     e.stopPropagation();
+    if (useSim.getState().display[body.id]?.focusable === false) return;
     set({ focusId: body.id });
     // optional: immediate snap (skip lerp for one frame)
     if (focusSnapOnSelect) {
@@ -87,7 +89,6 @@ export default function PlanetMesh({ body }: Props) {
     <group
       ref={groupRef}
       name={`planet-${body.id}`}
-      position={body.position as any}
       onPointerDown={handlePick}
     >
       {/* OPAQUE sphere (occludes stars) */}
@@ -97,8 +98,8 @@ export default function PlanetMesh({ body }: Props) {
           color={body.color}
           roughness={0.45}
           metalness={0.08}
-          emissive={body.id === "sun" ? new THREE.Color(body.color) : undefined}
-          emissiveIntensity={body.id === "sun" ? 0.9 : 0}
+          emissive={glow ? new THREE.Color(body.color) : undefined}
+          emissiveIntensity={glow ? 0.9 : 0}
           map={("map" in tex ? (tex as any).map : undefined)}
           normalMap={("normalMap" in tex ? (tex as any).normalMap : undefined)}
           roughnessMap={("roughnessMap" in tex ? (tex as any).roughnessMap : undefined)}
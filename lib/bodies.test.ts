@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bodyKind, centralBody } from "~/lib/bodies";
+import { makePreset } from "~/lib/presets";
+import { J2000_JD } from "~/lib/time";
+
+const preset = (id: Parameters<typeof makePreset>[0]) => {
+  const { bodies } = makePreset(id, J2000_JD);
+  return { bodies, masses: bodies.map(b => b.mass) };
+};
+
+test("the central body is the heaviest one without a parent", () => {
+  const moons = preset("solar-system-moons");
+  assert.equal(centralBody(moons.bodies, moons.masses), "sun");
+  const binary = preset("circumbinary");
+  assert.equal(centralBody(binary.bodies, binary.masses), "star-a");
+  assert.equal(centralBody([], []), undefined);
+});
+
+test("stars, planets and moons are told apart by mass and parent", () => {
+  const { bodies, masses } = preset("solar-system-moons");
+  const kind = (id: string) => { const i = bodies.findIndex(b => b.id === id); return bodyKind(bodies[i], masses[i]); };
+  assert.equal(kind("sun"), "star");
+  assert.equal(kind("jupiter"), "planet");
+  assert.equal(kind("io"), "moon");
+  const binary = preset("circumbinary");
+  assert.deepEqual(binary.bodies.map((b, i) => bodyKind(b, binary.masses[i])), ["star", "star", "planet"]);
+});
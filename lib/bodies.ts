@@ -1,13 +1,16 @@
 // lib/bodies.ts
+import { relativeState } from "~/lib/ephemeris";
 
+/**
+ * Static + visual metadata of a body. The dynamic state (mass, position,
+ * velocity) lives in the flat buffers of `SimState` (lib/simstate.ts).
+ */
 export type Body = {
   id: string;
   name: string;
   color: string;
-  mass: number;                           // in solar masses
-  position: [number, number, number];     // AU
-  velocity: [number, number, number];     // AU/day
   radius: number;                         // *visual* radius (scene units)
+  parent?: string;                        // id of the body it orbits (the central body if absent)
 
   // Optional visuals
   texture?: {
@@ -30,8 +33,57 @@ export type Body = {
   };
 };
 
+/** A body together with its initial conditions (used by setup/reset code). */
+export type BodyInit = Body & {
+  mass: number;                           // in solar masses
+  position: [number, number, number];     // AU
+  velocity: [number, number, number];     // AU/day
+  physRadius?: number;                    // AU, collision radius (0/absent = point particle)
+};
+
+/**
+ * Per-body display settings, kept by the UI beside the physics (the store's
+ * body registry) and saved in scenario files. Not used by the engine.
+ */
+export type BodyDisplay = {
+  trailLen: number;         // trail points; 0 = no trail
+  label: boolean;
+  labelSize: number;        // font size (scene units)
+  color: string | null;     // overrides Body.color for mesh, trail and orbit overlay
+  focusable: boolean;       // offered as a camera target (list and scene picking)
+};
+
+/** What a body is, for how it is drawn: stars glow, moons hang off a parent. */
+export type BodyKind = "star" | "planet" | "moon";
+
+/** Lightest star (Msun), about the hydrogen-burning limit. */
+const STAR_MASS = 0.07;
+
+export function bodyKind(b: Body, mass: number): BodyKind {
+  if (mass >= STAR_MASS) return "star";
+  return b.parent ? "moon" : "planet";
+}
+
+/**
+ * The body that bodies without a parent orbit: the most massive one without
+ * a parent itself (the Sun in the solar presets). `masses` is parallel to `bodies`.
+ */
+export function centralBody(bodies: Body[], masses: number[]): string | undefined {
+  let best: Body | undefined, most = -Infinity;
+  bodies.forEach((b, i) => {
+    if (!b.parent && (masses[i] ?? 0) > most) { best = b; most = masses[i] ?? 0; }
+  });
+  return best?.id;
+}
+
+/** Display settings for a body nobody has configured: moons get small labels so their planet's stays readable. */
+export function defaultDisplay(b: Body): BodyDisplay {
+  return { trailLen: 2000, label: true, labelSize: b.parent ? 0.03 : 0.06, color: null, focusable: true };
+}
+
 export const G = 0.00029591220828559104;       // AU^3 / (Msun * day^2)
 export const SOFTENING2 = 1e-9;                 // (AU)^2 tiny Plummer softening
+export const AU_KM = 1.495978707e8;             // km per AU
 
 // ---- Visual/orbital config used to CREATE bodies (no position/velocity here) ----
 type PlanetCfg = {
@@ -39,45 +91,48 @@ type PlanetCfg = {
   name: string;
   color: string;
   mass: number;        // Msun
-  a: number;           // semi-major axis in AU (we start them on +X at distance a)
+  parent?: string;     // body it orbits ("sun" if absent); listed after it
+  a: number;           // semi-major axis in AU around the parent (we start them on +X at distance a)
+  radiusKm: number;    // physical equatorial radius, for collisions
   visRadius: number;   // visual sphere radius (scene units)
   texture?: Body["texture"];
   ring?: Body["ring"];
   model?: Body["model"];
 };
 
-// Circular, coplanar (i=0, e=0) “toy” orbits. a in AU, masses in Msun.
+// Circular, coplanar (i=0, e=0) “toy” orbits (makeCircularBodies); a in AU, masses
+// in Msun. makeEphemerisBodies places the same planets from real elements instead.
 // NOTE: texture paths match your files under /public/tex/planets/
 const PLANETS: PlanetCfg[] = [
   {
     id: "mercury", name: "Mercury", color: "#9ca3af",
-    mass: 1.651e-7, a: 0.39, visRadius: 0.006,
+    mass: 1.651e-7, a: 0.39, radiusKm: 2439.7, visRadius: 0.006,
     texture: { map: "/tex/planets/mercury.jpg" },
   },
   {
     id: "venus", name: "Venus", color: "#fbbf24",
-    mass: 2.447e-6, a: 0.723, visRadius: 0.008,
+    mass: 2.447e-6, a: 0.723, radiusKm: 6051.8, visRadius: 0.008,
     texture: { map: "/tex/planets/venus.jpg" },
     // Optional later: separate cloud layer using /tex/planets/venus_atmosphere.jpg
   },
   {
     id: "earth", name: "Earth", color: "#60a5fa",
-    mass: 3.003e-6, a: 1.0, visRadius: 0.009,
+    mass: 3.003e-6, a: 1.0, radiusKm: 6378.1, visRadius: 0.009,
     texture: { map: "/tex/planets/earth.jpg" },
   },
   {
     id: "mars", name: "Mars", color: "#ef4444",
-    mass: 3.213e-7, a: 1.524, visRadius: 0.007,
+    mass: 3.213e-7, a: 1.524, radiusKm: 3396.2, visRadius: 0.007,
     texture: { map: "/tex/planets/mars.jpg" },
   },
   {
     id: "jupiter", name: "Jupiter", color: "#eab308",
-    mass: 9.545e-4, a: 5.204, visRadius: 0.020,
+    mass: 9.545e-4, a: 5.204, radiusKm: 71492, visRadius: 0.020,
     texture: { map: "/tex/planets/jupiter.jpg" },
   },
   {
     id: "saturn", name: "Saturn", color: "#fde047",
-    mass: 2.858e-4, a: 9.58, visRadius: 0.018,
+    mass: 2.858e-4, a: 9.58, radiusKm: 60268, visRadius: 0.018,
     texture: { map: "/tex/planets/saturn.jpg" },
     ring: {
       inner: 0.025,                // tweak visually as you like
@@ -89,18 +144,71 @@ const PLANETS: PlanetCfg[] = [
   },
   {
     id: "uranus", name: "Uranus", color: "#22d3ee",
-    mass: 4.365e-5, a: 19.2, visRadius: 0.016,
+    mass: 4.365e-5, a: 19.2, radiusKm: 25559, visRadius: 0.016,
     texture: { map: "/tex/planets/uranus.jpg" },
   },
   {
     id: "neptune", name: "Neptune", color: "#3b82f6",
-    mass: 5.148e-5, a: 30.05, visRadius: 0.016,
+    mass: 5.148e-5, a: 30.05, radiusKm: 24764, visRadius: 0.016,
     texture: { map: "/tex/planets/neptune.jpg" },
   },
 ];
 
-export function makeCircularBodies(): Body[] {
-  const bodies: Body[] = [];
+// Major moons; a in AU around the parent. No textures: plain colored spheres.
+const MOONS: PlanetCfg[] = [
+  { id: "moon", name: "Moon", color: "#d1d5db", parent: "earth", mass: 3.6923e-8, a: 0.00256956, radiusKm: 1737.4, visRadius: 0.003 },
+  { id: "io", name: "Io", color: "#facc15", parent: "jupiter", mass: 4.4919e-8, a: 0.00281889, radiusKm: 1821.6, visRadius: 0.003 },
+  { id: "europa", name: "Europa", color: "#e7e5e4", parent: "jupiter", mass: 2.4139e-8, a: 0.00448559, radiusKm: 1560.8, visRadius: 0.003 },
+  { id: "ganymede", name: "Ganymede", color: "#a8a29e", parent: "jupiter", mass: 7.4525e-8, a: 0.00715526, radiusKm: 2634.1, visRadius: 0.004 },
+  { id: "callisto", name: "Callisto", color: "#78716c", parent: "jupiter", mass: 5.4107e-8, a: 0.01258513, radiusKm: 2410.3, visRadius: 0.004 },
+  { id: "titan", name: "Titan", color: "#f59e0b", parent: "saturn", mass: 6.7650e-8, a: 0.00816770, radiusKm: 2574.7, visRadius: 0.004 },
+];
+
+/**
+ * Sun and planets (with `moons`, the major moons too) on the +X axis of their
+ * parents, velocities zero until seedCircularVelocities.
+ */
+export function makeCircularBodies(moons = false): BodyInit[] {
+  return makeBodies(p => ({
+    position: [p.a, 0, 0],  // start on +X axis of the parent
+    velocity: [0, 0, 0],    // velocities will be seeded later (seedCircularVelocities)
+  }), moons);
+}
+
+/**
+ * Sun and planets (with `moons`, the major moons too) where they are at `jd`
+ * (ecliptic J2000), from the mean elements in lib/ephemeris.ts, velocities
+ * included. The table follows each planet's system barycenter, so planets
+ * with moons are offset from it by the moons' pull. The Sun sits at rest at
+ * the origin: zero the system momentum before integrating.
+ *
+ * Moons are opt-in: they orbit in days, which the default integrators pay
+ * for in accuracy (Wisdom–Holman) or speed (Dormand–Prince) for the whole run.
+ */
+export function makeEphemerisBodies(jd: number, moons = false): BodyInit[] {
+  const bodies = makeBodies((p, parent) => {
+    const s = relativeState(p.id, jd, G * (parent.mass + p.mass));
+    return s ? { position: s.pos, velocity: s.vel } : { position: [p.a, 0, 0], velocity: [0, 0, 0] };
+  }, moons);
+  for (const planet of bodies) {
+    const planetMoons = bodies.filter(b => b.parent === planet.id);
+    if (!planetMoons.length) continue;
+    const msys = planetMoons.reduce((m, b) => m + b.mass, planet.mass);
+    for (let c = 0; c < 3; c++) {
+      const dp = planetMoons.reduce((d, b) => d + b.mass * (b.position[c] - planet.position[c]), 0) / msys;
+      const dv = planetMoons.reduce((d, b) => d + b.mass * (b.velocity[c] - planet.velocity[c]), 0) / msys;
+      for (const b of [planet, ...planetMoons]) { b.position[c] -= dp; b.velocity[c] -= dv; }
+    }
+  }
+  return bodies;
+}
+
+/** `place` gives each body's state relative to its parent (listed before it). */
+function makeBodies(
+  place: (p: PlanetCfg, parent: BodyInit) => { position: [number, number, number]; velocity: [number, number, number] },
+  moons: boolean
+): BodyInit[] {
+  const bodies: BodyInit[] = [];
 
   // Sun (uses your sun.jpg for a diffuse look; emissive is still handled in material)
   bodies.push({
@@ -111,20 +219,25 @@ export function makeCircularBodies(): Body[] {
     position: [0, 0, 0],
     velocity: [0, 0, 0],
     radius: 0.022,
+    physRadius: 695700 / AU_KM,
     texture: { map: "/tex/planets/sun.jpg" },
   });
 
-  // Planets
-  for (const p of PLANETS) {
-    const body: Body = {
+  // Planets, then moons
+  for (const p of moons ? [...PLANETS, ...MOONS] : PLANETS) {
+    const parent = bodies.find(b => b.id === (p.parent ?? "sun"))!;
+    const { position, velocity } = place(p, parent);
+    const body: BodyInit = {
       id: p.id,
       name: p.name,
       color: p.color,
       mass: p.mass,
-      position: [p.a, 0, 0],  // start on +X axis
-      velocity: [0, 0, 0],    // velocities will be seeded later
+      position: [0, 1, 2].map(c => parent.position[c] + position[c]) as [number, number, number],
+      velocity: [0, 1, 2].map(c => parent.velocity[c] + velocity[c]) as [number, number, number],
       radius: p.visRadius,
+      physRadius: p.radiusKm / AU_KM,
     };
+    if (p.parent) body.parent = p.parent;
     if (p.texture) body.texture = { ...p.texture };
     if (p.ring) body.ring = { ...p.ring };
     if (p.model) body.model = { ...p.model };
@@ -136,12 +249,12 @@ export function makeCircularBodies(): Body[] {
 
 /** Optional: zero-mass payload helpers (safe to keep even if UI disabled) */
 export function ensurePayload(
-  bodies: Body[],
+  bodies: BodyInit[],
   startAt?: [number, number, number],
   v0?: [number, number, number]
 ) {
   const i = bodies.findIndex(b => b.id === "payload");
-  const payload: Body = {
+  const payload: BodyInit = {
     id: "payload",
     name: "Payload",
     color: "#ff2d55",
@@ -153,10 +266,10 @@ export function ensurePayload(
   if (i >= 0) bodies[i] = payload; else bodies.push(payload);
 }
 
-export function ensurePayloadGEO(bodies: Body[]) {
+export function ensurePayloadGEO(bodies: BodyInit[]) {
   const earth = bodies.find(b => b.id === "earth");
   if (!earth) return;
-  const R_GEO_AU = 42164_000 / 1.495978707e11; // ≈ 2.818e-4 AU
+  const R_GEO_AU = 42164 / AU_KM; // ≈ 2.818e-4 AU
   const pos: [number, number, number] = [earth.position[0], earth.position[1] + R_GEO_AU, earth.position[2]];
   const vCirc = Math.sqrt(G * earth.mass / R_GEO_AU); // AU/day
   const vel: [number, number, number] = [earth.velocity[0] + vCirc, earth.velocity[1], earth.velocity[2]];
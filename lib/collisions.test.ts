@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Body } from "~/lib/bodies";
+import { detectContacts, markCollisionStart, resolveCollisions } from "~/lib/collisions";
+import { allocState, type SimState } from "~/lib/simstate";
+
+type Spec = { id: string; mass: number; radius: number; x: number; vx: number };
+
+const meta = (id: string): Body => ({ id, name: id, color: "#fff", radius: 0.01 });
+
+/** Bodies on the x axis at the start of an interval; `fly` moves them ballistically by dt. */
+function line(specs: Spec[]) {
+  const state = allocState(specs.length);
+  specs.forEach((b, i) => {
+    state.mass[i] = b.mass;
+    state.radius[i] = b.radius;
+    state.pos[3*i] = b.x;
+    state.vel[3*i] = b.vx;
+  });
+  markCollisionStart(state);
+  return { bodies: specs.map(b => meta(b.id)), state };
+}
+
+function fly(state: SimState, dt: number) {
+  for (let k = 0; k < state.pos.length; k++) state.pos[k] += state.vel[k] * dt;
+}
+
+function momentum(state: SimState, n: number) {
+  let p = 0;
+  for (let i = 0; i < n; i++) p += state.mass[i] * state.vel[3*i];
+  return p;
+}
+
+test("bounce reflects at first contact and carries the pair through the rest of the interval", () => {
+  // touch at t = 1.5 (gap 4 - 1 closed at 2 AU/day), interval ends at t = 2
+  const { bodies, state } = line([
+    { id: "a", mass: 1e-6, radius: 0.5, x: -2, vx: 1 },
+    { id: "b", mass: 1e-6, radius: 0.5, x: 2, vx: -1 },
+  ]);
+  fly(state, 2);
+  const contacts = detectContacts(state);
+  assert.deepEqual(contacts, [[0, 1]]);
+  const { events, removed } = resolveCollisions(bodies, state, contacts, "bounce", 2, 2);
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].kind, "bounce");
+  assert.deepEqual(removed, []);
+  assert.ok(Math.abs(state.vel[0] + 1) < 1e-12 && Math.abs(state.vel[3] - 1) < 1e-12);
+  // 0.5 days apart after contact at ±0.5
+  assert.ok(Math.abs(state.pos[0] + 1) < 1e-12, `a at ${state.pos[0]}`);
+  assert.ok(Math.abs(state.pos[3] - 1) < 1e-12, `b at ${state.pos[3]}`);
+});
+
+test("bounce conserves momentum and kinetic energy for unequal masses", () => {
+  const { bodies, state } = line([
+    { id: "a", mass: 3e-6, radius: 0.01, x: 0, vx: 0.02 },
+    { id: "b", mass: 1e-6, radius: 0.01, x: 0.05, vx: -0.01 },
+  ]);
+  const p0 = momentum(state, 2);
+  const e0 = 0.5 * (3e-6 * 0.02 ** 2 + 1e-6 * 0.01 ** 2);
+  fly(state, 2); // contact at t = 1
+  resolveCollisions(bodies, state, detectContacts(state), "bounce", 2, 2);
+  const e1 = 0.5 * (state.mass[0] * state.vel[0] ** 2 + state.mass[1] * state.vel[3] ** 2);
+  assert.ok(Math.abs(momentum(state, 2) - p0) < 1e-20);
+  assert.ok(Math.abs(e1 - e0) / e0 < 1e-12);
+  // separating at the same 0.03 AU/day for the day after contact
+  assert.ok(Math.abs(state.pos[3] - state.pos[0] - 0.05) < 1e-12, `${state.pos[3] - state.pos[0]} apart`);
+});
+
+test("merge keeps mass and momentum and adds volumes", () => {
+  const { bodies, state } = line([
+    { id: "big", mass: 3e-6, radius: 2e-5, x: 0, vx: 0.001 },
+    { id: "small", mass: 1e-6, radius: 1e-5, x: 2.5e-5, vx: -0.002 },
+  ]);
+  const p0 = momentum(state, 2);
+  const { events, removed } = resolveCollisions(bodies, state, detectContacts(state), "merge", 0, 0);
+  assert.deepEqual(removed, [1]);
+  assert.equal(events[0].kind, "merge");
+  assert.deepEqual(events[0].ids, ["big", "small"]);
+  assert.equal(state.mass[0], 4e-6);
+  assert.ok(Math.abs(state.mass[0] * state.vel[0] - p0) < 1e-20);
+  assert.ok(Math.abs(state.radius[0] - Math.cbrt(2e-5 ** 3 + 1e-5 ** 3)) < 1e-18);
+});
+
+test("delete removes test particles that hit a body and lets massive bodies pass", () => {
+  const { bodies, state } = line([
+    { id: "earth", mass: 3e-6, radius: 4e-5, x: 0, vx: 0 },
+    { id: "moon", mass: 4e-8, radius: 1e-5, x: 3e-5, vx: 0 },
+    { id: "payload", mass: 0, radius: 0, x: -1e-5, vx: 0 },
+  ]);
+  const { events, removed } = resolveCollisions(bodies, state, detectContacts(state), "delete", 0, 0);
+  assert.deepEqual(removed, [2]);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].kind, "delete");
+  assert.deepEqual(events[0].ids, ["payload", "earth"]);
+  assert.equal(state.mass[0], 3e-6);
+  assert.equal(state.mass[1], 4e-8);
+});
@@ -0,0 +1,203 @@
+// lib/collisions.ts
+import type { Body } from "~/lib/bodies";
+import { scratch, type SimState } from "~/lib/simstate";
+
+/**
+ * What happens when two bodies touch (|r_ij| < R_i + R_j):
+ * - "merge":  perfectly inelastic; mass and momentum conserved, volumes add.
+ *             A massless test particle hitting a massive body is simply deleted.
+ * - "bounce": elastic reflection along the line of centres.
+ * - "delete": massless test particles (payloads, belt particles) that hit a
+ *             body are deleted; massive bodies pass through each other.
+ * - "off":    bodies pass through each other (softened gravity only).
+ */
+export type CollisionMode = "off" | "merge" | "bounce" | "delete";
+
+export type CollisionEvent = {
+  t: number;                         // sim days
+  kind: "merge" | "bounce" | "delete";
+  ids: [string, string];             // [survivor or deleted particle, other]
+  names: [string, string];
+  speed: number;                     // relative impact speed, AU/day
+};
+
+/** Positions and velocities at the start of a collision check interval, for the swept test. */
+export function markCollisionStart(state: SimState) {
+  scratch(state, "coll.pos0", 3 * state.n).set(state.pos);
+  scratch(state, "coll.vel0", 3 * state.n).set(state.vel);
+}
+
+/**
+ * Squared closest approach of i and j over the last interval, assuming their
+ * relative motion was a straight line from the marked start to now.
+ * Catches fast pairs that would otherwise tunnel between checks.
+ */
+function sweptDist2(state: SimState, p0: Float64Array, i: number, j: number): number {
+  const { pos } = state;
+  const ax = p0[3*j] - p0[3*i], ay = p0[3*j+1] - p0[3*i+1], az = p0[3*j+2] - p0[3*i+2];
+  const bx = pos[3*j] - pos[3*i], by = pos[3*j+1] - pos[3*i+1], bz = pos[3*j+2] - pos[3*i+2];
+  const dx = bx - ax, dy = by - ay, dz = bz - az;
+  const dd = dx*dx + dy*dy + dz*dz;
+  const s = dd > 0 ? Math.min(1, Math.max(0, -(ax*dx + ay*dy + az*dz) / dd)) : 1;
+  const cx = ax + s*dx, cy = ay + s*dy, cz = az + s*dz;
+  return cx*cx + cy*cy + cz*cz;
+}
+
+function relSpeed(state: SimState, i: number, j: number): number {
+  const { vel } = state;
+  return Math.hypot(vel[3*j] - vel[3*i], vel[3*j+1] - vel[3*i+1], vel[3*j+2] - vel[3*i+2]);
+}
+
+/** j is absorbed into i (i keeps its metadata). */
+function merge(state: SimState, i: number, j: number) {
+  const { pos, vel, mass, radius } = state;
+  const mi = mass[i], mj = mass[j], M = mi + mj;
+  if (M > 0) {
+    for (let k = 0; k < 3; k++) {
+      pos[3*i+k] = (mi * pos[3*i+k] + mj * pos[3*j+k]) / M;
+      vel[3*i+k] = (mi * vel[3*i+k] + mj * vel[3*j+k]) / M;
+    }
+  }
+  mass[i] = M;
+  radius[i] = Math.cbrt(radius[i] ** 3 + radius[j] ** 3);
+}
+
+/**
+ * Elastic bounce along the line of centres at first contact. A fast pair may
+ * already have passed through each other by the end of the interval (`dt`
+ * days), so both are taken back along their swept paths to where they touched,
+ * with velocities interpolated to that moment, reflected, and then carried
+ * through the rest of the interval so they stay in step with everything else.
+ * A pair that was already embedded is pushed apart to contact instead.
+ */
+function bounce(state: SimState, p0: Float64Array, v0: Float64Array, dt: number, i: number, j: number): boolean {
+  const { pos, vel, mass, radius } = state;
+  const mi = mass[i], mj = mass[j], M = mi + mj;
+  if (!(M > 0)) return false;
+  const R = radius[i] + radius[j];
+
+  // fraction of the interval at which they touched (1: embedded, no rewind)
+  const ax = p0[3*j] - p0[3*i], ay = p0[3*j+1] - p0[3*i+1], az = p0[3*j+2] - p0[3*i+2];
+  const dx = pos[3*j] - pos[3*i] - ax, dy = pos[3*j+1] - pos[3*i+1] - ay, dz = pos[3*j+2] - pos[3*i+2] - az;
+  const aa = ax*ax + ay*ay + az*az, ad = ax*dx + ay*dy + az*dz, dd = dx*dx + dy*dy + dz*dz;
+  const s = aa > R * R && dd > 0
+    ? Math.min(1, Math.max(0, (-ad - Math.sqrt(Math.max(0, ad*ad - dd * (aa - R*R)))) / dd))
+    : 1;
+
+  // the velocity change still to come after contact, per body
+  const dvRest = [0, 0, 0, 0, 0, 0];
+  [i, j].forEach((b, q) => {
+    for (let k = 0; k < 3; k++) {
+      const v = vel[3*b+k];
+      pos[3*b+k] = p0[3*b+k] + s * (pos[3*b+k] - p0[3*b+k]);
+      vel[3*b+k] = v0[3*b+k] + s * (v - v0[3*b+k]);
+      dvRest[3*q+k] = v - vel[3*b+k];
+    }
+  });
+
+  let nx = pos[3*j] - pos[3*i], ny = pos[3*j+1] - pos[3*i+1], nz = pos[3*j+2] - pos[3*i+2];
+  const d = Math.hypot(nx, ny, nz);
+  if (d === 0) return false;
+  nx /= d; ny /= d; nz /= d;
+
+  const vn = (vel[3*j] - vel[3*i]) * nx + (vel[3*j+1] - vel[3*i+1]) * ny + (vel[3*j+2] - vel[3*i+2]) * nz;
+  if (vn < 0) {
+    const ki = 2 * mj / M * vn, kj = 2 * mi / M * vn;
+    vel[3*i] += ki * nx; vel[3*i+1] += ki * ny; vel[3*i+2] += ki * nz;
+    vel[3*j] -= kj * nx; vel[3*j+1] -= kj * ny; vel[3*j+2] -= kj * nz;
+  }
+
+  const overlap = R - d;
+  if (overlap > 1e-12 * R) {
+    const si = mj / M * overlap, sj = mi / M * overlap;
+    pos[3*i] -= si * nx; pos[3*i+1] -= si * ny; pos[3*i+2] -= si * nz;
+    pos[3*j] += sj * nx; pos[3*j+1] += sj * ny; pos[3*j+2] += sj * nz;
+  }
+
+  // rest of the interval: coast on the new velocities, picking up the
+  // gravity kick they would have had over it (linear in time)
+  const rest = (1 - s) * dt;
+  [i, j].forEach((b, q) => {
+    for (let k = 0; k < 3; k++) {
+      pos[3*b+k] += (vel[3*b+k] + 0.5 * dvRest[3*q+k]) * rest;
+      vel[3*b+k] += dvRest[3*q+k];
+    }
+  });
+  return vn < 0;
+}
+
+/**
+ * Pairs that touched since the last `markCollisionStart`.
+ * Only pairs where at least one body has a radius are tested, so thousands of
+ * point test particles cost O(N × bodies-with-radius), not O(N²).
+ */
+export function detectContacts(state: SimState): [number, number][] {
+  const { n, radius } = state;
+  const p0 = scratch(state, "coll.pos0", 3 * n);
+  const out: [number, number][] = [];
+  for (let i = 0; i < n; i++) {
+    if (!(radius[i] > 0)) continue;
+    for (let j = 0; j < n; j++) {
+      // solid–solid pairs once (i < j), every point particle against every solid body
+      if (j === i || (radius[j] > 0 && j < i)) continue;
+      const R = radius[i] + radius[j];
+      if (sweptDist2(state, p0, i, j) < R * R) out.push([i, j]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Apply `mode` to the detected contacts, in place; `dt` is the length of the
+ * interval since `markCollisionStart`. Bodies that were merged away or deleted
+ * are returned in `removed` for the caller to compact out (see `removeBodies`).
+ */
+export function resolveCollisions(
+  bodies: Body[],
+  state: SimState,
+  contacts: [number, number][],
+  mode: CollisionMode,
+  t: number,
+  dt: number
+): { events: CollisionEvent[]; removed: number[] } {
+  const events: CollisionEvent[] = [];
+  const removed: number[] = [];
+  if (mode === "off") return { events, removed };
+
+  const { mass } = state;
+  const p0 = scratch(state, "coll.pos0", 3 * state.n);
+  const v0 = scratch(state, "coll.vel0", 3 * state.n);
+  const dead = new Uint8Array(state.n);
+  // test particles have no metadata
+  const who = (k: number) =>
+    k < state.nBodies ? bodies[k] : { id: `particle-${k - state.nBodies}`, name: "Test particle" };
+  const event = (kind: CollisionEvent["kind"], a: number, b: number, speed: number) => {
+    const A = who(a), B = who(b);
+    events.push({ t, kind, ids: [A.id, B.id], names: [A.name, B.name], speed });
+  };
+
+  for (const [i, j] of contacts) {
+    if (dead[i] || dead[j]) continue;
+    const speed = relSpeed(state, i, j);
+    if (mode === "bounce") {
+      if (bounce(state, p0, v0, dt, i, j)) event("bounce", i, j, speed);
+      continue;
+    }
+    if (mass[i] === 0 && mass[j] === 0) continue;  // two test particles: nothing to do
+    if (mass[i] === 0 || mass[j] === 0) {
+      const gone = mass[j] === 0 ? j : i;
+      dead[gone] = 1;
+      removed.push(gone);
+      event("delete", gone, gone === j ? i : j, speed);
+      continue;
+    }
+    if (mode === "delete") continue;               // massive pairs pass through
+    // the heavier body survives and keeps its identity
+    const [keep, gone] = mass[i] >= mass[j] ? [i, j] : [j, i];
+    merge(state, keep, gone);
+    dead[gone] = 1;
+    removed.push(gone);
+    event("merge", keep, gone, speed);
+  }
+  return { events, removed };
+}
@@ -0,0 +1,106 @@
+// lib/diagnostics.ts
+import { G, SOFTENING2 } from "~/lib/bodies";
+import type { SimState } from "~/lib/simstate";
+
+type Vec3 = [number, number, number];
+
+/** Conserved quantities of the whole system (Msun, AU, day units). */
+export type Conserved = {
+  energy: number;            // kinetic + softened potential
+  angularMomentum: Vec3;     // Σ m r × v
+  momentum: Vec3;            // Σ m v
+  momentumScale: number;     // Σ m |v|, to normalise momentum drift (P itself is ~0)
+};
+
+/** Relative drift of the conserved quantities since a reference sample. */
+export type Drift = {
+  t: number;                 // sim days
+  dE: number;                // |E - E0| / |E0|
+  dL: number;                // |L - L0| / |L0|
+  dP: number;                // |P - P0| / Σ m|v|
+};
+
+export function kineticEnergy(state: SimState, massScale = 1): number {
+  const { vel, mass, n } = state;
+  let ke = 0;
+  for (let i = 0; i < n; i++) {
+    const v2 = vel[3*i] ** 2 + vel[3*i+1] ** 2 + vel[3*i+2] ** 2;
+    ke += 0.5 * mass[i] * massScale * v2;
+  }
+  return ke;
+}
+
+/**
+ * Pairwise potential with the same Plummer softening the force uses,
+ * U = -Σ G mi mj / sqrt(r² + ε²), so E is the quantity the integrators conserve.
+ */
+export function potentialEnergy(state: SimState, massScale = 1): number {
+  const { pos, mass, n } = state;
+  let u = 0;
+  for (let i = 0; i < n; i++) {
+    const mi = mass[i] * massScale;
+    if (mi === 0) continue;
+    for (let j = i + 1; j < n; j++) {
+      const mj = mass[j] * massScale;
+      if (mj === 0) continue;
+      const dx = pos[3*j] - pos[3*i];
+      const dy = pos[3*j+1] - pos[3*i+1];
+      const dz = pos[3*j+2] - pos[3*i+2];
+      u -= G * mi * mj / Math.sqrt(dx*dx + dy*dy + dz*dz + SOFTENING2);
+    }
+  }
+  return u;
+}
+
+export function totalEnergy(state: SimState, massScale = 1): number {
+  return kineticEnergy(state, massScale) + potentialEnergy(state, massScale);
+}
+
+export function angularMomentum(state: SimState, massScale = 1): Vec3 {
+  const { pos, vel, mass, n } = state;
+  const L: Vec3 = [0, 0, 0];
+  for (let i = 0; i < n; i++) {
+    const m = mass[i] * massScale;
+    const x = pos[3*i], y = pos[3*i+1], z = pos[3*i+2];
+    const vx = vel[3*i], vy = vel[3*i+1], vz = vel[3*i+2];
+    L[0] += m * (y*vz - z*vy);
+    L[1] += m * (z*vx - x*vz);
+    L[2] += m * (x*vy - y*vx);
+  }
+  return L;
+}
+
+export function linearMomentum(state: SimState, massScale = 1): Vec3 {
+  const { vel, mass, n } = state;
+  const P: Vec3 = [0, 0, 0];
+  for (let i = 0; i < n; i++) {
+    const m = mass[i] * massScale;
+    P[0] += m * vel[3*i]; P[1] += m * vel[3*i+1]; P[2] += m * vel[3*i+2];
+  }
+  return P;
+}
+
+export function measureConserved(state: SimState, massScale = 1): Conserved {
+  let scale = 0;
+  for (let i = 0; i < state.n; i++) {
+    scale += state.mass[i] * massScale * Math.hypot(state.vel[3*i], state.vel[3*i+1], state.vel[3*i+2]);
+  }
+  return {
+    energy: totalEnergy(state, massScale),
+    angularMomentum: angularMomentum(state, massScale),
+    momentum: linearMomentum(state, massScale),
+    momentumScale: scale,
+  };
+}
+
+const diffNorm = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+export function conservedDrift(now: Conserved, ref: Conserved, t: number): Drift {
+  const L0 = Math.hypot(...ref.angularMomentum);
+  return {
+    t,
+    dE: ref.energy !== 0 ? Math.abs((now.energy - ref.energy) / ref.energy) : 0,
+    dL: L0 > 0 ? diffNorm(now.angularMomentum, ref.angularMomentum) / L0 : 0,
+    dP: ref.momentumScale > 0 ? diffNorm(now.momentum, ref.momentum) / ref.momentumScale : 0,
+  };
+}
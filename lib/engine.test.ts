@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { makeEphemerisBodies } from "~/lib/bodies";
+import { advance, advanceTo, createEngine, precessionReport, roundTrip, type EngineSettings } from "~/lib/engine";
+import { zeroSystemMomentum } from "~/lib/physics";
+import { makePrecessionTestBodies } from "~/lib/relativity";
+import { createSimState } from "~/lib/simstate";
+import { J2000_JD } from "~/lib/time";
+
+/** Sun and the inner planets at J2000, no moons. */
+function innerEngine(settings: Partial<EngineSettings>) {
+  const init = makeEphemerisBodies(J2000_JD).filter(b => ["sun", "mercury", "venus", "earth", "mars"].includes(b.id));
+  zeroSystemMomentum(init);
+  return createEngine(createSimState(init), { collisions: "off", ...settings });
+}
+
+test("advance returns the days covered and advanceTo lands exactly on the target", () => {
+  const engine = innerEngine({ integrator: "dopri" });
+  assert.equal(advance(engine, 3.5), 3.5);
+  assert.equal(advance(engine, -1.25), -1.25);
+  assert.ok(advanceTo(engine, 40));
+  assert.equal(engine.t, 40);
+});
+
+test("Dormand–Prince gives the same state in one long call as in many short ones", () => {
+  const long = innerEngine({ integrator: "dopri" });
+  const short = innerEngine({ integrator: "dopri" });
+  advanceTo(long, 365);
+  for (let d = 0; d < 365; d++) advance(short, 1);
+  assert.equal(long.t, short.t);
+  for (let k = 0; k < long.state.pos.length; k++) {
+    assert.ok(Math.abs(long.state.pos[k] - short.state.pos[k]) < 1e-7, `pos[${k}]`);
+  }
+});
+
+test("roundTrip comes back to round-off for leapfrog and near the tolerance for Dormand–Prince", () => {
+  const engine = innerEngine({ tolerance: 1e-10 });
+  assert.ok(roundTrip(engine, 100, "leapfrog").maxDr < 1e-12);
+  assert.ok(roundTrip(engine, 100, "dopri").maxDr < 1e-7);
+});
+
+/** Fitted perihelion precession of the Sun–Mercury test after a century of one-day ticks. */
+function centuryOfMercury(settings: Partial<EngineSettings>) {
+  const engine = createEngine(createSimState(makePrecessionTestBodies()), { collisions: "off", ...settings });
+  for (let d = 0; d < 36525; d++) advance(engine, 1);
+  const report = precessionReport(engine);
+  assert.ok(report);
+  return report;
+}
+
+test("Wisdom–Holman measures Mercury's 1PN perihelion advance within 1% of the analytic 43″/century", () => {
+  const r = centuryOfMercury({ integrator: "wh", gr: true });
+  assert.ok(r.resolved);
+  assert.ok(Math.abs(r.analytic - 42.98) < 0.01, `analytic ${r.analytic}`);
+  assert.ok(Math.abs(r.measured - r.analytic) < 0.01 * r.analytic, `measured ${r.measured}`);
+});
+
+test("leapfrog's report is flagged, though its GR-on minus GR-off rate is the 1PN one", () => {
+  const on = centuryOfMercury({ integrator: "leapfrog", gr: true });
+  const off = centuryOfMercury({ integrator: "leapfrog", gr: false });
+  assert.equal(on.resolved, false);
+  assert.ok(Math.abs(on.measured - off.measured - on.analytic) < 0.01 * on.analytic);
+});
@@ -0,0 +1,465 @@
+// lib/engine.ts
+import { G, Body, BodyInit, makeEphemerisBodies } from "~/lib/bodies";
+import { makeForceBackend, type ForceBackend, type ForceSolver } from "~/lib/forces";
+import {
+  zeroSystemMomentum,
+  stepLeapfrog,
+  stepRK4,
+  stepDopri,
+  stepYoshida,
+  stepWisdomHolman,
+  stepKepler,
+  createAdaptiveState,
+  type AdaptiveState,
+  type ExtraAccel,
+  type Integrator,
+} from "~/lib/physics";
+import {
+  createSimState,
+  indexOfBody,
+  removeBodies,
+  toBodyInits,
+  withParticles,
+  type SimState,
+} from "~/lib/simstate";
+import { conservedDrift, measureConserved, type Conserved, type Drift } from "~/lib/diagnostics";
+import {
+  detectContacts,
+  markCollisionStart,
+  resolveCollisions,
+  type CollisionEvent,
+  type CollisionMode,
+} from "~/lib/collisions";
+import { activeBurns, applyImpulse, burnAccel, nextBurnBoundary, type Burn } from "~/lib/maneuvers";
+import {
+  addPrecessionSample,
+  analyticPrecessionRate,
+  createPrecessionFit,
+  fittedPrecessionRate,
+  grAccel,
+  perihelionLongitude,
+  toArcsecPerCentury,
+  type PrecessionFit,
+} from "~/lib/relativity";
+import { J2000_JD } from "~/lib/time";
+
+/** Physics knobs the engine needs (a subset of the UI store). */
+export type EngineSettings = {
+  integrator: Integrator;
+  massScale: number;
+  velScale: number;
+  tolerance: number;       // adaptive integrator only
+  forceSolver: ForceSolver;
+  bhTheta: number;
+  collisions: CollisionMode;
+  gr: boolean;             // 1PN correction from the Sun
+  perihelionBody: string;  // body whose perihelion precession is measured
+};
+
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  integrator: "leapfrog",
+  massScale: 1,
+  velScale: 1,
+  tolerance: 1e-10,
+  forceSolver: "direct",
+  bhTheta: 0.5,
+  collisions: "merge",
+  gr: false,
+  perihelionBody: "mercury",
+};
+
+/** Longest interval between collision checks (days). */
+const COLLISION_DT = 0.05;
+
+/**
+ * Everything needed to advance a system, independent of React/Three.
+ * Used by the Web Worker and by headless runs.
+ */
+export type Engine = {
+  bodies: Body[];
+  state: SimState;
+  t: number;                 // simulated days since the engine was (re)created
+  settings: EngineSettings;
+  forces: ForceBackend;
+  adaptive: AdaptiveState;
+  sunIndex: number;          // central body for Wisdom–Holman
+  extra?: ExtraAccel;        // always-on extra forces
+  burns: Burn[];             // scheduled maneuvers (sim-time based)
+  precession: PrecessionFit; // ϖ(t) of settings.perihelionBody around the Sun
+  conserved0: Conserved;     // reference for drift diagnostics
+  events: CollisionEvent[];  // collisions not yet picked up by the caller
+};
+
+/** Default system: Sun + 8 planets where they are at `epochJD` (JPL mean elements). */
+export function makeDefaultSystem(epochJD = J2000_JD): { bodies: Body[]; state: SimState } {
+  const init = makeEphemerisBodies(epochJD);
+  zeroSystemMomentum(init);
+  return createSimState(init);
+}
+
+export function createEngine(
+  system: { bodies: Body[]; state: SimState } = makeDefaultSystem(),
+  settings: Partial<EngineSettings> = {}
+): Engine {
+  const s = { ...DEFAULT_ENGINE_SETTINGS, ...settings };
+  return {
+    bodies: system.bodies,
+    state: system.state,
+    t: 0,
+    settings: s,
+    forces: makeForceBackend(s.forceSolver, s.bhTheta),
+    adaptive: createAdaptiveState(),
+    sunIndex: Math.max(0, indexOfBody(system.bodies, "sun")),
+    burns: [],
+    precession: createPrecessionFit(),
+    conserved0: measureConserved(system.state, s.massScale),
+    events: [],
+  };
+}
+
+/** Swap in a new system (reset, import, ...) keeping the settings. */
+export function loadSystem(engine: Engine, system: { bodies: Body[]; state: SimState }) {
+  engine.bodies = system.bodies;
+  engine.state = system.state;
+  engine.t = 0;
+  engine.adaptive = createAdaptiveState();
+  engine.sunIndex = Math.max(0, indexOfBody(system.bodies, "sun"));
+  engine.conserved0 = measureConserved(system.state, engine.settings.massScale);
+  engine.events = [];
+  engine.precession = createPrecessionFit();
+}
+
+export function updateEngineSettings(engine: Engine, patch: Partial<EngineSettings>) {
+  const prev = engine.settings;
+  engine.settings = { ...prev, ...patch };
+  const s = engine.settings;
+  if (s.forceSolver !== prev.forceSolver || s.bhTheta !== prev.bhTheta) {
+    engine.forces = makeForceBackend(s.forceSolver, s.bhTheta);
+  }
+  if (s.integrator !== prev.integrator) engine.adaptive = createAdaptiveState();
+  // a different massScale is a different system: drift is measured from here on
+  if (s.massScale !== prev.massScale) engine.conserved0 = measureConserved(engine.state, s.massScale);
+  // the precession fit only means something for one set of physics
+  if (s.gr !== prev.gr || s.massScale !== prev.massScale || s.perihelionBody !== prev.perihelionBody) {
+    engine.precession = createPrecessionFit();
+  }
+}
+
+/**
+ * Replace the bodies mid-run (add a payload, edit a body, ...), keeping the
+ * clock and the test particles.
+ */
+export function setBodies(engine: Engine, init: BodyInit[]) {
+  const before = measureConserved(engine.state, engine.settings.massScale);
+  const { state: old } = engine;
+  const next = createSimState(init);
+  engine.bodies = next.bodies;
+  engine.state = withParticles(next.state, old.pos.subarray(3 * old.nBodies), old.vel.subarray(3 * old.nBodies));
+  engine.sunIndex = Math.max(0, indexOfBody(next.bodies, "sun"));
+  engine.precession = createPrecessionFit();
+  rebase(engine, before);
+}
+
+/**
+ * What the body editor can change. `position`/`velocity` are relative to the
+ * body `relativeTo` when given (its state before the edit), else barycentric.
+ */
+export type BodyEdit = Partial<Pick<BodyInit, "name" | "color" | "radius" | "mass" | "position" | "velocity">> & {
+  relativeTo?: string;
+};
+
+/** Absolute state from one relative to `ref` (none: already barycentric). */
+function fromFrame(v: [number, number, number], ref: [number, number, number] | undefined): [number, number, number] {
+  return ref ? [v[0] + ref[0], v[1] + ref[1], v[2] + ref[2]] : v;
+}
+
+/** Change body `id` in place, live; false if it (or `relativeTo`) doesn't exist. */
+export function editBody(engine: Engine, id: string, edit: BodyEdit): boolean {
+  const init = toBodyInits(engine.bodies, engine.state);
+  const b = init.find(x => x.id === id);
+  const { relativeTo, position, velocity, ...rest } = edit;
+  const ref = relativeTo ? init.find(x => x.id === relativeTo) : undefined;
+  if (!b || (relativeTo && (!ref || ref === b))) return false;
+  Object.assign(b, rest);
+  if (position) b.position = fromFrame(position, ref?.position);
+  if (velocity) b.velocity = fromFrame(velocity, ref?.velocity);
+  setBodies(engine, init);
+  return true;
+}
+
+/** Add a body mid-run (state relative to `relativeTo` if given); false if the id is taken or the reference is missing. */
+export function addBody(engine: Engine, body: BodyInit, relativeTo?: string): boolean {
+  const init = toBodyInits(engine.bodies, engine.state);
+  const ref = relativeTo ? init.find(x => x.id === relativeTo) : undefined;
+  if (init.some(x => x.id === body.id) || (relativeTo && !ref)) return false;
+  init.push({
+    ...body,
+    position: fromFrame(body.position, ref?.position),
+    velocity: fromFrame(body.velocity, ref?.velocity),
+  });
+  setBodies(engine, init);
+  return true;
+}
+
+/** Delete body `id` mid-run; its moons stay where they are, now orbiting the Sun as far as the UI is concerned. */
+export function removeBody(engine: Engine, id: string): boolean {
+  const init = toBodyInits(engine.bodies, engine.state);
+  if (!init.some(x => x.id === id)) return false;
+  const kept = init.filter(x => x.id !== id);
+  for (const b of kept) if (b.parent === id) delete b.parent;
+  setBodies(engine, kept);
+  return true;
+}
+
+/** Append massless test particles (barycentric pos/vel, flat); `replace` drops the current ones. */
+export function addParticles(engine: Engine, pos: ArrayLike<number>, vel: ArrayLike<number>, replace = false) {
+  // massless: E, L and P are unchanged, so the drift reference stays valid
+  engine.state = withParticles(engine.state, pos, vel, replace);
+}
+
+/** Relative drift of E, L and P since the last reset (or massScale change). */
+export function engineDrift(engine: Engine): Drift {
+  return conservedDrift(measureConserved(engine.state, engine.settings.massScale), engine.conserved0, engine.t);
+}
+
+/**
+ * Integrate `days` (either sign) with the selected integrator. Steps stop
+ * exactly at burn boundaries (impulses fire there, finite burns switch on/off)
+ * and, with collisions enabled, at least every COLLISION_DT for the contact check.
+ *
+ * Backward runs flip every velocity and integrate forward: gravity (and the
+ * 1PN term, which is even in v) is time-symmetric, so this is the same
+ * trajectory traced the other way. Impulses crossed backward are taken out
+ * again, so a state at t = burn.t is always the pre-burn one.
+ *
+ * Returns the days actually covered: the adaptive integrator stops short when
+ * it runs out of steps (counted in `engine.adaptive.truncated`), and so does
+ * the clock. `advanceTo` keeps going until it gets there.
+ */
+export function advance(engine: Engine, days: number): number {
+  if (!(days !== 0) || !Number.isFinite(days)) return 0;
+  const sign = days > 0 ? 1 : -1;
+  const start = engine.t;
+  const end = engine.t + days;
+  const check = engine.settings.collisions !== "off";
+  if (sign < 0) flipVelocities(engine.state);
+
+  while (sign * (end - engine.t) > 0) {
+    const t = engine.t;
+    if (sign > 0) {
+      for (const b of engine.burns) {
+        if (b.duration === 0 && b.t === t) fireImpulse(engine, b, 1);
+      }
+    }
+
+    let stop = sign > 0
+      ? Math.min(end, nextBurnBoundary(engine.burns, t, 1))
+      : Math.max(end, nextBurnBoundary(engine.burns, t, -1));
+    if (check) stop = sign > 0 ? Math.min(stop, t + COLLISION_DT) : Math.max(stop, t - COLLISION_DT);
+    const burning = activeBurns(engine.burns, (t + stop) / 2);
+
+    if (check) markCollisionStart(engine.state);
+    const before = burning.length ? measureConserved(engine.state, engine.settings.massScale) : null;
+    const span = Math.abs(stop - t);
+    const covered = integrate(engine, span, burnAccel(burning, engine.bodies, sign));
+    // thrust changes E/L/P on purpose; keep the drift about integration error
+    if (before) rebase(engine, before, sign);
+    const reached = covered >= span;
+    engine.t = reached ? stop : t + sign * covered;
+    if (check) collide(engine, sign, Math.abs(engine.t - t));
+    if (!reached) break;
+
+    if (sign < 0) {
+      for (const b of engine.burns) {
+        if (b.duration === 0 && b.t === stop) fireImpulse(engine, b, -1);
+      }
+    }
+  }
+
+  if (sign < 0) flipVelocities(engine.state);
+  samplePrecession(engine);
+  return engine.t - start;
+}
+
+/**
+ * Advance to sim time `t` however many step budgets it takes (jumps, checks,
+ * batch runs); false if the integrator stalled on the way.
+ */
+export function advanceTo(engine: Engine, t: number): boolean {
+  while (engine.t !== t) {
+    if (advance(engine, t - engine.t) === 0) return false;
+  }
+  return true;
+}
+
+function flipVelocities(state: SimState) {
+  const { vel } = state;
+  for (let k = 0; k < vel.length; k++) vel[k] = -vel[k];
+}
+
+function fireImpulse(engine: Engine, burn: Burn, velSign: number) {
+  const before = measureConserved(engine.state, engine.settings.massScale);
+  if (applyImpulse(burn, engine.bodies, engine.state, velSign)) rebase(engine, before, velSign);
+}
+
+/** Step the selected integrator `days` forward; returns the days covered (all of them but for Dormand–Prince). */
+function integrate(engine: Engine, days: number, burnExtra: ExtraAccel): number {
+  const { state, settings: s, forces } = engine;
+  const parts = [
+    s.gr && indexOfBody(engine.bodies, "sun") >= 0 ? grAccel(engine.sunIndex, s.massScale) : undefined,
+    engine.extra,
+    burnExtra,
+  ].filter((f): f is NonNullable<ExtraAccel> => !!f);
+  const extra: ExtraAccel = parts.length <= 1
+    ? parts[0]
+    : (st, acc) => { for (const f of parts) f(st, acc); };
+
+  switch (s.integrator) {
+    case "rk4":
+      stepRK4(state, days, 1, s.massScale, s.velScale, false, 0, extra, undefined, forces);
+      break;
+    case "dopri":
+      return stepDopri(state, days, 1, s.massScale, s.velScale, false, 0, extra, engine.adaptive, s.tolerance,
+        undefined, undefined, forces);
+    case "yoshida4":
+    case "yoshida6":
+      stepYoshida(state, days, 1, s.massScale, s.velScale, false, 0, extra,
+        s.integrator === "yoshida6" ? 6 : 4, undefined, forces);
+      break;
+    case "kepler":
+      // two-body conics around each body's primary: no extra forces by design
+      stepKepler(state, days, 1, s.massScale, s.velScale, false, engine.sunIndex,
+        engine.bodies.map(b => (b.parent ? indexOfBody(engine.bodies, b.parent) : -1)));
+      break;
+    case "wh":
+      stepWisdomHolman(state, days, 1, s.massScale, s.velScale, false, engine.sunIndex, extra,
+        undefined, forces);
+      break;
+    default:
+      stepLeapfrog(state, days, 1, s.massScale, s.velScale, false, 0, extra, undefined, forces);
+  }
+  return days;
+}
+
+function samplePrecession(engine: Engine) {
+  const i = indexOfBody(engine.bodies, engine.settings.perihelionBody);
+  const sun = indexOfBody(engine.bodies, "sun");
+  if (i < 0 || sun < 0 || i === sun) return;
+  const { state, settings: s } = engine;
+  const mu = G * (state.mass[sun] + state.mass[i]) * s.massScale;
+  const o = perihelionLongitude(state, i, sun, mu);
+  if (o.a > 0 && o.e < 1) addPrecessionSample(engine.precession, engine.t, o.varpi, o.a, o.e);
+}
+
+/**
+ * Integrators whose own perihelion drift is far below 1PN. Wisdom–Holman
+ * solves the solar Kepler problem exactly; the others feel a softened Sun
+ * (≈ −6″/century for Mercury) and, for leapfrog at its default steps, an
+ * O(h²) drift near −2000″/century, next to a 43″/century effect.
+ */
+const RESOLVES_1PN: Integrator[] = ["wh"];
+
+/** Perihelion precession of the measured body: fitted vs analytic 1PN, arcsec/century. */
+export type PrecessionReport = {
+  body: string;
+  samples: number;
+  spanDays: number;
+  measured: number;
+  analytic: number;
+  a: number;
+  e: number;
+  resolved: boolean; // false: the integrator's own drift swamps 1PN, so measured is no GR check
+};
+
+export function precessionReport(engine: Engine): PrecessionReport | null {
+  const fit = engine.precession;
+  const sun = indexOfBody(engine.bodies, "sun");
+  if (fit.n === 0 || sun < 0) return null;
+  const mu = G * engine.state.mass[sun] * engine.settings.massScale;
+  return {
+    body: engine.settings.perihelionBody,
+    samples: fit.n,
+    spanDays: fit.t1 - fit.t0,
+    measured: toArcsecPerCentury(fittedPrecessionRate(fit)),
+    analytic: toArcsecPerCentury(analyticPrecessionRate(mu, fit.a, fit.e)),
+    a: fit.a,
+    e: fit.e,
+    resolved: RESOLVES_1PN.includes(engine.settings.integrator),
+  };
+}
+
+/** Position/velocity error after integrating forward and back again. */
+export type RoundTrip = {
+  integrator: Integrator;
+  days: number;
+  maxDr: number;   // AU, worst body
+  body: string;    // the worst body
+  maxDv: number;   // AU/day
+  ms: number;      // wall time for both legs
+};
+
+/**
+ * Reversibility check: run a copy of the bodies (no test particles, burns or
+ * collisions) `days` forward and the same span backward with `integrator`,
+ * and compare with the start. Symplectic integrators come back to round-off;
+ * RK4 and Dormand–Prince come back with their accumulated truncation error.
+ */
+export function roundTrip(engine: Engine, days: number, integrator = engine.settings.integrator): RoundTrip {
+  const copy = createEngine(createSimState(toBodyInits(engine.bodies, engine.state)), {
+    ...engine.settings,
+    integrator,
+    collisions: "off",
+  });
+  copy.extra = engine.extra;
+  const { pos, vel, nBodies } = copy.state;
+  const pos0 = pos.slice(), vel0 = vel.slice();
+
+  const start = performance.now();
+  advanceTo(copy, days);
+  advanceTo(copy, 0);
+  const ms = performance.now() - start;
+
+  let maxDr = 0, maxDv = 0, worst = 0;
+  for (let i = 0; i < nBodies; i++) {
+    const dr = Math.hypot(pos[3*i] - pos0[3*i], pos[3*i+1] - pos0[3*i+1], pos[3*i+2] - pos0[3*i+2]);
+    const dv = Math.hypot(vel[3*i] - vel0[3*i], vel[3*i+1] - vel0[3*i+1], vel[3*i+2] - vel0[3*i+2]);
+    if (dr > maxDr) { maxDr = dr; worst = i; }
+    maxDv = Math.max(maxDv, dv);
+  }
+  return { integrator, days, maxDr, body: copy.bodies[worst]?.id ?? "", maxDv, ms };
+}
+
+/**
+ * Shift the drift reference by the change since `before`, for deliberate
+ * changes (collisions, burns, edits) that the diagnostics shouldn't count.
+ * `velSign` = −1 while velocities are reversed (L and P are odd in v).
+ */
+function rebase(engine: Engine, before: Conserved, velSign = 1) {
+  const after = measureConserved(engine.state, engine.settings.massScale);
+  const ref = engine.conserved0;
+  ref.energy += after.energy - before.energy;
+  for (let k = 0; k < 3; k++) {
+    ref.angularMomentum[k] += velSign * (after.angularMomentum[k] - before.angularMomentum[k]);
+    ref.momentum[k] += velSign * (after.momentum[k] - before.momentum[k]);
+  }
+}
+
+/** Contacts over the last `dt` days, resolved with the selected mode. */
+function collide(engine: Engine, velSign: number, dt: number) {
+  const { settings: s } = engine;
+  const contacts = detectContacts(engine.state);
+  if (!contacts.length) return;
+  const before = measureConserved(engine.state, s.massScale);
+  const { events, removed } = resolveCollisions(engine.bodies, engine.state, contacts, s.collisions, engine.t, dt);
+
+  if (removed.length) {
+    const next = removeBodies(engine.bodies, engine.state, removed);
+    engine.bodies = next.bodies;
+    engine.state = next.state;
+    engine.sunIndex = Math.max(0, indexOfBody(next.bodies, "sun"));
+  }
+  engine.events.push(...events);
+
+  // Collisions change E (and L for merges) on purpose
+  rebase(engine, before, velSign);
+}
@@ -0,0 +1,119 @@
+// lib/ephemeris.ts
+// Approximate planetary positions from mean orbital elements and their secular
+// rates (Standish, "Keplerian Elements for Approximate Positions of the Major
+// Planets", JPL, Table 1: valid 1800–2050 AD, errors of order arcminutes for
+// the inner planets). Heliocentric, J2000 ecliptic and equinox: the scene's
+// XY plane is the ecliptic. Moons are relative to their planet, same frame.
+import { elementsToState, type KeplerElements } from "~/lib/kepler";
+import { J2000_JD } from "~/lib/time";
+
+const DEG = Math.PI / 180;
+
+/** a (AU), e, I, L, ϖ (long. of perihelion), Ω (deg) at J2000, and their rates per Julian century. */
+type MeanElements = {
+  a: number; e: number; I: number; L: number; lonPeri: number; Omega: number;
+};
+
+const J2000_ELEMENTS: Record<string, { at: MeanElements; rate: MeanElements }> = {
+  mercury: {
+    at:   { a: 0.38709927, e: 0.20563593, I: 7.00497902, L: 252.25032350, lonPeri: 77.45779628, Omega: 48.33076593 },
+    rate: { a: 0.00000037, e: 0.00001906, I: -0.00594749, L: 149472.67411175, lonPeri: 0.16047689, Omega: -0.12534081 },
+  },
+  venus: {
+    at:   { a: 0.72333566, e: 0.00677672, I: 3.39467605, L: 181.97909950, lonPeri: 131.60246718, Omega: 76.67984255 },
+    rate: { a: 0.00000390, e: -0.00004107, I: -0.00078890, L: 58517.81538729, lonPeri: 0.00268329, Omega: -0.27769418 },
+  },
+  // the table's entry is the Earth–Moon barycenter
+  earth: {
+    at:   { a: 1.00000261, e: 0.01671123, I: -0.00001531, L: 100.46457166, lonPeri: 102.93768193, Omega: 0 },
+    rate: { a: 0.00000562, e: -0.00004392, I: -0.01294668, L: 35999.37244981, lonPeri: 0.32327364, Omega: 0 },
+  },
+  mars: {
+    at:   { a: 1.52371034, e: 0.09339410, I: 1.84969142, L: -4.55343205, lonPeri: -23.94362959, Omega: 49.55953891 },
+    rate: { a: 0.00001847, e: 0.00007882, I: -0.00813131, L: 19140.30268499, lonPeri: 0.44441088, Omega: -0.29257343 },
+  },
+  jupiter: {
+    at:   { a: 5.20288700, e: 0.04838624, I: 1.30439695, L: 34.39644051, lonPeri: 14.72847983, Omega: 100.47390909 },
+    rate: { a: -0.00011607, e: -0.00013253, I: -0.00183714, L: 3034.74612775, lonPeri: 0.21252668, Omega: 0.20469106 },
+  },
+  saturn: {
+    at:   { a: 9.53667594, e: 0.05386179, I: 2.48599187, L: 49.95424423, lonPeri: 92.59887831, Omega: 113.66242448 },
+    rate: { a: -0.00125060, e: -0.00050991, I: 0.00193609, L: 1222.49362201, lonPeri: -0.41897216, Omega: -0.28867794 },
+  },
+  uranus: {
+    at:   { a: 19.18916464, e: 0.04725744, I: 0.77263783, L: 313.23810451, lonPeri: 170.95427630, Omega: 74.01692503 },
+    rate: { a: -0.00196176, e: -0.00004397, I: -0.00242939, L: 428.48202785, lonPeri: 0.40805281, Omega: 0.04240589 },
+  },
+  neptune: {
+    at:   { a: 30.06992276, e: 0.00859048, I: 1.77004347, L: -55.12002969, lonPeri: 44.96476227, Omega: 131.78422574 },
+    rate: { a: 0.00026291, e: 0.00005105, I: 0.00035372, L: 218.45945325, lonPeri: -0.32241464, Omega: -0.00508664 },
+  },
+
+  // Moons, planetocentric. The Moon's mean elements (with the regression of its
+  // node and the advance of its perigee) are good to a few degrees. The others
+  // are circular-ish orbits in the parent's equator (plane from its IAU pole);
+  // Galilean mean longitudes from Meeus, Titan's phase is arbitrary. Enough to
+  // see the systems move, not to predict transits.
+  moon: {
+    at:   { a: 0.00256956, e: 0.0549, I: 5.145, L: 218.3165, lonPeri: 83.3532, Omega: 125.0445 },
+    rate: { a: 0, e: 0, I: 0, L: 481267.8813, lonPeri: 4069.0137, Omega: -1934.1363 },
+  },
+  io: {
+    at:   { a: 0.00281889, e: 0.0041, I: 2.217, L: 17.46, lonPeri: 337.818, Omega: 337.818 },
+    rate: { a: 0, e: 0, I: 0, L: 7432434.11, lonPeri: 0, Omega: 0 },
+  },
+  europa: {
+    at:   { a: 0.00448559, e: 0.0090, I: 2.217, L: 212.07, lonPeri: 337.818, Omega: 337.818 },
+    rate: { a: 0, e: 0, I: 0, L: 3702711.82, lonPeri: 0, Omega: 0 },
+  },
+  ganymede: {
+    at:   { a: 0.00715526, e: 0.0013, I: 2.217, L: 219.37, lonPeri: 337.818, Omega: 337.818 },
+    rate: { a: 0, e: 0, I: 0, L: 1837850.68, lonPeri: 0, Omega: 0 },
+  },
+  callisto: {
+    at:   { a: 0.01258513, e: 0.0074, I: 2.217, L: 78.46, lonPeri: 337.818, Omega: 337.818 },
+    rate: { a: 0, e: 0, I: 0, L: 787883.37, lonPeri: 0, Omega: 0 },
+  },
+  titan: {
+    at:   { a: 0.00816770, e: 0.0288, I: 28.052, L: 0, lonPeri: 169.528, Omega: 169.528 },
+    rate: { a: 0, e: 0, I: 0, L: 824625.45, lonPeri: 0, Omega: 0 },
+  },
+};
+
+/** JD span the table is fitted to (1800-01-01 to 2050-12-31); outside it positions degrade. */
+export const EPHEMERIS_RANGE: [number, number] = [2378496.5, 2470171.5];
+
+export function hasEphemeris(id: string): boolean {
+  return id in J2000_ELEMENTS;
+}
+
+/** Mean elements of body `id` at `jd`, with the mean anomaly M (rad); null for bodies not in the table. */
+export function meanElementsAt(id: string, jd: number): (KeplerElements & { M: number }) | null {
+  const row = J2000_ELEMENTS[id];
+  if (!row) return null;
+  const T = (jd - J2000_JD) / 36525;
+  const el = (k: keyof MeanElements) => row.at[k] + row.rate[k] * T;
+  const lonPeri = el("lonPeri"), Omega = el("Omega");
+  return {
+    a: el("a"),
+    e: el("e"),
+    i: el("I") * DEG,
+    Omega: Omega * DEG,
+    w: (lonPeri - Omega) * DEG,
+    M: (el("L") - lonPeri) * DEG,
+  };
+}
+
+/**
+ * Position (AU) and velocity (AU/day) of `id` at `jd` relative to its primary
+ * (the Sun for planets, the planet for moons), on the mean-element ellipse for
+ * mu = G(m_primary + m). Null if not in the table.
+ */
+export function relativeState(
+  id: string,
+  jd: number,
+  mu: number
+): { pos: [number,number,number]; vel: [number,number,number] } | null {
+  const el = meanElementsAt(id, jd);
+  return el && elementsToState(el, el.M, mu);
+}
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createBarnesHut, directForces, measureForceAccuracy } from "~/lib/forces";
+
+/** Deterministic pseudo-random system: n bodies in a 10 AU cube, every fifth one massless. */
+function cloud(n: number) {
+  let seed = 12345;
+  const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const pos = new Float64Array(3 * n);
+  const mass = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    for (let c = 0; c < 3; c++) pos[3*i + c] = 10 * (rand() - 0.5);
+    mass[i] = i % 5 === 4 ? 0 : 1e-6 * (1 + rand());
+  }
+  return { pos, mass };
+}
+
+test("Barnes–Hut with θ = 0 reproduces direct summation", () => {
+  const n = 200;
+  const { pos, mass } = cloud(n);
+  const acc = measureForceAccuracy(createBarnesHut(0), pos, mass, n);
+  assert.ok(acc.maxRelErr < 1e-12, `max rel err ${acc.maxRelErr}`);
+});
+
+test("Barnes–Hut stays within a few percent at θ = 0.5", () => {
+  const n = 500;
+  const { pos, mass } = cloud(n);
+  const acc = measureForceAccuracy(createBarnesHut(0.5), pos, mass, n);
+  assert.ok(acc.rmsRelErr < 0.02, `rms rel err ${acc.rmsRelErr}`);
+});
+
+test("a body in a depth-capped leaf does not pull on itself", () => {
+  // the first two are closer than 2^-40 of the box (a body far out sets its
+  // size) but farther apart than the softening length: one leaf, real forces
+  const pos = new Float64Array([0, 0, 0, 1e-4, 0, 0, 1e10, 0, 0]);
+  const mass = new Float64Array([1e-3, 2e-3, 1e-3]);
+  const acc = measureForceAccuracy(createBarnesHut(0.5), pos, mass, 3);
+  assert.ok(acc.maxRelErr < 1e-9, `max rel err ${acc.maxRelErr}`);
+});
+
+test("both backends agree on which bodies are sources", () => {
+  const { pos, mass } = cloud(50);
+  mass[3] = -1e-6; // an edited mass: felt like a test particle by both, pulls on neither
+  const acc = measureForceAccuracy(createBarnesHut(0), pos, mass, 50);
+  assert.ok(acc.maxRelErr < 1e-12, `max rel err ${acc.maxRelErr}`);
+
+  const ref = new Float64Array(150);
+  directForces.accelerations(pos, mass, 50, ref);
+  const without = mass.slice();
+  without[3] = 0;
+  const plain = new Float64Array(150);
+  directForces.accelerations(pos, without, 50, plain);
+  assert.deepEqual(ref, plain);
+});
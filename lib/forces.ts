@@ -0,0 +1,269 @@
+// lib/forces.ts
+import { G, SOFTENING2 } from "~/lib/bodies";
+
+export type ForceSolver = "direct" | "barnes-hut";
+
+/**
+ * Pluggable gravity backend.
+ * `pos` is flat [x0,y0,z0, x1,...], `mass` is already multiplied by massScale.
+ * Writes (overwrites) the gravitational accelerations into `acc` (same layout).
+ */
+export type ForceBackend = {
+  kind: ForceSolver;
+  accelerations(pos: Float64Array, mass: Float64Array, n: number, acc: Float64Array): void;
+};
+
+/** Whether a body pulls on the others (both backends use this one rule). */
+export const isSource = (m: number) => m > 0;
+
+// indices of the bodies with mass, rebuilt on every call
+let sources = new Int32Array(0);
+
+/**
+ * Reference pairwise summation. Massive pairs are O(M²); massless bodies
+ * (payloads, belt particles) only feel the M massive ones, so N test
+ * particles add O(N·M) rather than O(N²).
+ */
+export const directForces: ForceBackend = {
+  kind: "direct",
+  accelerations(pos, mass, n, acc) {
+    acc.fill(0, 0, 3 * n);
+    if (sources.length < n) sources = new Int32Array(n);
+    let ns = 0;
+    for (let i = 0; i < n; i++) if (isSource(mass[i])) sources[ns++] = i;
+
+    for (let a = 0; a < ns; a++) {
+      const i = sources[a];
+      for (let b = a + 1; b < ns; b++) {
+        const j = sources[b];
+        const dx = pos[3*j] - pos[3*i];
+        const dy = pos[3*j+1] - pos[3*i+1];
+        const dz = pos[3*j+2] - pos[3*i+2];
+
+        const r2 = dx*dx + dy*dy + dz*dz + SOFTENING2;
+        const invR = 1.0 / Math.sqrt(r2);
+        const f = G * invR / r2;
+        const s1 = f * mass[j];
+        const s2 = f * mass[i];
+
+        acc[3*i] += dx * s1; acc[3*i+1] += dy * s1; acc[3*i+2] += dz * s1;
+        acc[3*j] -= dx * s2; acc[3*j+1] -= dy * s2; acc[3*j+2] -= dz * s2;
+      }
+    }
+
+    if (ns === n) return;
+    for (let i = 0; i < n; i++) {
+      if (isSource(mass[i])) continue;
+      const x = pos[3*i], y = pos[3*i+1], z = pos[3*i+2];
+      let ax = 0, ay = 0, az = 0;
+      for (let b = 0; b < ns; b++) {
+        const j = sources[b];
+        const dx = pos[3*j] - x, dy = pos[3*j+1] - y, dz = pos[3*j+2] - z;
+        const r2 = dx*dx + dy*dy + dz*dz + SOFTENING2;
+        const f = G * mass[j] / (r2 * Math.sqrt(r2));
+        ax += dx * f; ay += dy * f; az += dz * f;
+      }
+      acc[3*i] = ax; acc[3*i+1] = ay; acc[3*i+2] = az;
+    }
+  },
+};
+
+const MAX_DEPTH = 40;  // coincident bodies share a leaf below this depth
+const EMPTY = -1;      // nodeBody: leaf with nothing in it
+const INTERNAL = -2;   // nodeBody: has children
+const CLUSTER = -3;    // nodeBody: depth-capped leaf holding several bodies
+
+/**
+ * Barnes–Hut octree, O(N log N).
+ * Cells whose size/distance ratio is below θ are replaced by their monopole
+ * (total mass at the centre of mass). θ = 0 reproduces direct summation;
+ * 0.3–0.7 is the usual speed/accuracy range.
+ * Massless bodies feel the tree but are never inserted into it. A body never
+ * feels itself: cells that contain it are opened, and in a depth-capped leaf
+ * its own mass is taken out of the monopole.
+ * Node storage lives in the closure and is reused between calls.
+ */
+export function createBarnesHut(theta = 0.5): ForceBackend {
+  let cap = 0;
+  let cx = new Float64Array(0), cy = cx, cz = cx, half = cx;
+  let nm = cx, mx = cx, my = cx, mz = cx;
+  let nodeBody = new Int32Array(0);
+  let child = new Int32Array(0);
+  let parent = new Int32Array(0);
+  let owner = new Int32Array(0); // = i + 1 while walking body i: the cell contains it
+  let leafOf = new Int32Array(0); // leaf each massive body ended up in
+  let stack = new Int32Array(0);
+  let count = 0;
+
+  function ensureCapacity(need: number) {
+    if (need <= cap) return;
+    const next = Math.max(need, cap * 2, 64);
+    const grow = (a: Float64Array) => { const b = new Float64Array(next); b.set(a); return b; };
+    cx = grow(cx); cy = grow(cy); cz = grow(cz); half = grow(half);
+    nm = grow(nm); mx = grow(mx); my = grow(my); mz = grow(mz);
+    const grow32 = (a: Int32Array) => { const b = new Int32Array(next); b.set(a); return b; };
+    nodeBody = grow32(nodeBody); parent = grow32(parent); owner = grow32(owner);
+    const ch = new Int32Array(next * 8).fill(EMPTY); ch.set(child); child = ch;
+    cap = next;
+  }
+
+  function newNode(x: number, y: number, z: number, h: number, p: number): number {
+    ensureCapacity(count + 1);
+    const k = count++;
+    cx[k] = x; cy[k] = y; cz[k] = z; half[k] = h;
+    nm[k] = 0; mx[k] = 0; my[k] = 0; mz[k] = 0;
+    nodeBody[k] = EMPTY;
+    parent[k] = p;
+    owner[k] = 0;
+    child.fill(EMPTY, 8 * k, 8 * k + 8);
+    return k;
+  }
+
+  function childFor(k: number, x: number, y: number, z: number): number {
+    const oct = (x >= cx[k] ? 1 : 0) | (y >= cy[k] ? 2 : 0) | (z >= cz[k] ? 4 : 0);
+    let c = child[8 * k + oct];
+    if (c === EMPTY) {
+      const h = half[k] / 2;
+      c = newNode(
+        cx[k] + (oct & 1 ? h : -h),
+        cy[k] + (oct & 2 ? h : -h),
+        cz[k] + (oct & 4 ? h : -h),
+        h,
+        k
+      );
+      child[8 * k + oct] = c;
+    }
+    return c;
+  }
+
+  function addMass(k: number, m: number, x: number, y: number, z: number) {
+    nm[k] += m; mx[k] += m * x; my[k] += m * y; mz[k] += m * z;
+  }
+
+  function insert(pos: Float64Array, mass: Float64Array, b: number) {
+    const x = pos[3*b], y = pos[3*b+1], z = pos[3*b+2], m = mass[b];
+    let k = 0;
+    for (let depth = 0; ;) {
+      const occupant = nodeBody[k];
+      if (occupant === INTERNAL) {
+        addMass(k, m, x, y, z);
+        k = childFor(k, x, y, z);
+        depth++;
+      } else if (occupant === EMPTY) {
+        nodeBody[k] = b;
+        leafOf[b] = k;
+        addMass(k, m, x, y, z);
+        return;
+      } else if (occupant === CLUSTER || depth >= MAX_DEPTH) {
+        nodeBody[k] = CLUSTER;
+        leafOf[b] = k;
+        addMass(k, m, x, y, z);
+        return;
+      } else {
+        // split: push the resident body one level down, then retry here
+        nodeBody[k] = INTERNAL;
+        const e = occupant;
+        const c = childFor(k, pos[3*e], pos[3*e+1], pos[3*e+2]);
+        nodeBody[c] = e;
+        leafOf[e] = c;
+        addMass(c, mass[e], pos[3*e], pos[3*e+1], pos[3*e+2]);
+      }
+    }
+  }
+
+  return {
+    kind: "barnes-hut",
+    accelerations(pos, mass, n, acc) {
+      acc.fill(0, 0, 3 * n);
+
+      // bounding cube of the massive bodies
+      const lo = [Infinity, Infinity, Infinity], hi = [-Infinity, -Infinity, -Infinity];
+      let massive = 0;
+      for (let i = 0; i < n; i++) {
+        if (!isSource(mass[i])) continue;
+        massive++;
+        for (let c = 0; c < 3; c++) {
+          lo[c] = Math.min(lo[c], pos[3*i + c]);
+          hi[c] = Math.max(hi[c], pos[3*i + c]);
+        }
+      }
+      if (massive === 0) return;
+      const size = Math.max(hi[0] - lo[0], hi[1] - lo[1], hi[2] - lo[2], 1e-12);
+
+      count = 0;
+      if (leafOf.length < n) leafOf = new Int32Array(n);
+      newNode((lo[0] + hi[0]) / 2, (lo[1] + hi[1]) / 2, (lo[2] + hi[2]) / 2, size / 2 * 1.0001, EMPTY);
+      for (let i = 0; i < n; i++) if (isSource(mass[i])) insert(pos, mass, i);
+
+      if (stack.length < count + 8) stack = new Int32Array((count + 8) * 2);
+      const theta2 = theta * theta;
+
+      for (let i = 0; i < n; i++) {
+        const xi = pos[3*i], yi = pos[3*i+1], zi = pos[3*i+2];
+        const self = isSource(mass[i]);
+        if (self) for (let k = leafOf[i]; k !== EMPTY; k = parent[k]) owner[k] = i + 1;
+        let ax = 0, ay = 0, az = 0;
+        let sp = 0;
+        stack[sp++] = 0;
+        while (sp > 0) {
+          const k = stack[--sp];
+          const mine = self && owner[k] === i + 1;
+          if (mine && nodeBody[k] === i) continue;
+          // the cell's monopole without body i in it
+          const m = mine ? nm[k] - mass[i] : nm[k];
+          if (!(m > 0)) continue;
+          const sx = mine ? mx[k] - mass[i] * xi : mx[k];
+          const sy = mine ? my[k] - mass[i] * yi : my[k];
+          const sz = mine ? mz[k] - mass[i] * zi : mz[k];
+          const dx = sx / m - xi, dy = sy / m - yi, dz = sz / m - zi;
+          const d2 = dx*dx + dy*dy + dz*dz;
+          const s = 2 * half[k];
+          if (nodeBody[k] !== INTERNAL || (!mine && s * s < theta2 * d2)) {
+            // leaf, or far enough away (and not around body i) to treat as a point mass
+            const r2 = d2 + SOFTENING2;
+            const f = G * m / (r2 * Math.sqrt(r2));
+            ax += dx * f; ay += dy * f; az += dz * f;
+          } else {
+            for (let o = 0; o < 8; o++) {
+              const c = child[8 * k + o];
+              if (c !== EMPTY) stack[sp++] = c;
+            }
+          }
+        }
+        if (self) for (let k = leafOf[i]; k !== EMPTY; k = parent[k]) owner[k] = 0;
+        acc[3*i] = ax; acc[3*i+1] = ay; acc[3*i+2] = az;
+      }
+    },
+  };
+}
+
+export function makeForceBackend(kind: ForceSolver, theta = 0.5): ForceBackend {
+  return kind === "barnes-hut" ? createBarnesHut(theta) : directForces;
+}
+
+/** Relative acceleration error of `backend` against direct summation. */
+export type ForceAccuracy = { n: number; maxRelErr: number; rmsRelErr: number };
+
+export function measureForceAccuracy(
+  backend: ForceBackend,
+  pos: Float64Array,
+  mass: Float64Array,
+  n: number
+): ForceAccuracy {
+  const ref = new Float64Array(3 * n);
+  const test = new Float64Array(3 * n);
+  directForces.accelerations(pos, mass, n, ref);
+  backend.accelerations(pos, mass, n, test);
+
+  let max = 0, sum = 0, counted = 0;
+  for (let i = 0; i < n; i++) {
+    const ex = test[3*i] - ref[3*i], ey = test[3*i+1] - ref[3*i+1], ez = test[3*i+2] - ref[3*i+2];
+    const a = Math.hypot(ref[3*i], ref[3*i+1], ref[3*i+2]);
+    if (a === 0) continue;
+    const rel = Math.hypot(ex, ey, ez) / a;
+    max = Math.max(max, rel);
+    sum += rel * rel;
+    counted++;
+  }
+  return { n, maxRelErr: max, rmsRelErr: counted ? Math.sqrt(sum / counted) : 0 };
+}
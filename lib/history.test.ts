@@ -0,0 +1,90 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { makeEphemerisBodies } from "~/lib/bodies";
+import { advance, createEngine } from "~/lib/engine";
+import {
+  createHistory,
+  findHistoryEntry,
+  historyRange,
+  historyTrails,
+  recordHistory,
+  seekHistory,
+} from "~/lib/history";
+import { zeroSystemMomentum } from "~/lib/physics";
+import { createSimState } from "~/lib/simstate";
+import { J2000_JD } from "~/lib/time";
+
+function earthEngine() {
+  const init = makeEphemerisBodies(J2000_JD).filter(b => b.id === "sun" || b.id === "earth");
+  zeroSystemMomentum(init);
+  return createEngine(createSimState(init), { collisions: "off" });
+}
+
+/** Advance in quarter-day ticks, recording after each like the worker does. */
+function run(engine: ReturnType<typeof earthEngine>, history: ReturnType<typeof createHistory>, days: number) {
+  for (let k = 0; k < days * 4; k++) {
+    advance(engine, 0.25);
+    recordHistory(history, engine);
+  }
+}
+
+test("records one snapshot per interval and seeks back to the exact state", () => {
+  const engine = earthEngine();
+  const history = createHistory();
+  recordHistory(history, engine);
+  run(engine, history, 10);
+  assert.deepEqual(historyRange(history), { t0: 0, t1: 10, count: 11 });
+
+  const at4 = history.slots[4]!.state.pos.slice();
+  assert.ok(seekHistory(history, engine, 4.6));
+  assert.equal(engine.t, 4);
+  assert.deepEqual(engine.state.pos.slice(0, at4.length), at4);
+  // the snapshot is copied out, so stepping doesn't touch it
+  advance(engine, 1);
+  assert.deepEqual(history.slots[4]!.state.pos, at4);
+});
+
+test("seeking keeps later entries until the run records past the seek point, then branches", () => {
+  const engine = earthEngine();
+  const history = createHistory();
+  recordHistory(history, engine);
+  run(engine, history, 10);
+
+  seekHistory(history, engine, 3);
+  assert.equal(historyRange(history)!.t1, 10);
+  assert.ok(seekHistory(history, engine, 7));
+  assert.equal(engine.t, 7);
+
+  seekHistory(history, engine, 3);
+  engine.state.vel[3] *= 1.01; // a different future from t = 3
+  run(engine, history, 2);
+  assert.deepEqual(historyRange(history), { t0: 0, t1: 5, count: 6 });
+  assert.notDeepEqual(history.slots[5]!.state.pos, history.slots[4]!.state.pos);
+});
+
+test("drops the oldest snapshots past the slot limit or the byte budget", () => {
+  const engine = earthEngine();
+  const bySlots = createHistory(1, 5);
+  recordHistory(bySlots, engine);
+  run(engine, bySlots, 8);
+  assert.deepEqual(historyRange(bySlots), { t0: 4, t1: 8, count: 5 });
+
+  const byBytes = createHistory(1, 100, 3 * 64 * engine.state.n);
+  recordHistory(byBytes, engine);
+  run(engine, byBytes, 5);
+  assert.equal(historyRange(byBytes)!.count, 3);
+});
+
+test("finds the entry at or before t and traces each body's recorded path", () => {
+  const engine = earthEngine();
+  const history = createHistory();
+  recordHistory(history, engine);
+  run(engine, history, 6);
+  assert.equal(findHistoryEntry(history, -5), 0);
+  assert.equal(findHistoryEntry(history, 2.99), 2);
+  assert.equal(findHistoryEntry(createHistory(), 1), -1);
+
+  const trails = historyTrails(history, engine.bodies, 3);
+  assert.equal(trails.earth.length, 3 * 4);
+  assert.equal(trails.earth[9], Math.fround(history.slots[3]!.state.pos[3]));
+});
@@ -0,0 +1,162 @@
+// lib/history.ts
+// Bounded ring buffer of full engine snapshots, for rewinding to an earlier
+// point and branching the run from there.
+import type { Body } from "~/lib/bodies";
+import type { Conserved } from "~/lib/diagnostics";
+import { createAdaptiveState } from "~/lib/physics";
+import { createPrecessionFit } from "~/lib/relativity";
+import { cloneState, indexOfBody, type SimState } from "~/lib/simstate";
+import type { Engine } from "~/lib/engine";
+
+/** Sim days between snapshots. */
+export const HISTORY_DT = 1;
+/** At most this many snapshots ... */
+export const HISTORY_SLOTS = 1000;
+/** ... and this many bytes of state (large particle clouds shorten the history). */
+export const HISTORY_BYTES = 64 * 1024 * 1024;
+
+export type HistoryEntry = {
+  t: number;
+  bodies: Body[];
+  state: SimState;        // private copy
+  conserved0: Conserved;  // drift reference at the time, so diagnostics carry on
+  bytes: number;
+};
+
+export type History = {
+  slots: (HistoryEntry | null)[];
+  start: number;          // oldest entry
+  count: number;
+  bytes: number;
+  interval: number;
+  budget: number;
+  cursor: number;         // sim time the engine was last recorded at or restored to
+};
+
+/** Range covered by the history, for the timeline. */
+export type HistoryRange = { t0: number; t1: number; count: number };
+
+export function createHistory(
+  interval = HISTORY_DT,
+  capacity = HISTORY_SLOTS,
+  budget = HISTORY_BYTES
+): History {
+  return {
+    slots: new Array(capacity).fill(null),
+    start: 0, count: 0, bytes: 0,
+    interval, budget,
+    cursor: Infinity,
+  };
+}
+
+export function clearHistory(h: History) {
+  h.slots.fill(null);
+  h.start = h.count = h.bytes = 0;
+  h.cursor = Infinity;
+}
+
+/** k-th entry, oldest first. */
+export function historyEntry(h: History, k: number): HistoryEntry {
+  return h.slots[(h.start + k) % h.slots.length]!;
+}
+
+export function historyRange(h: History): HistoryRange | null {
+  if (h.count === 0) return null;
+  return { t0: historyEntry(h, 0).t, t1: historyEntry(h, h.count - 1).t, count: h.count };
+}
+
+function dropOldest(h: History) {
+  const i = h.start;
+  h.bytes -= h.slots[i]!.bytes;
+  h.slots[i] = null;
+  h.start = (i + 1) % h.slots.length;
+  h.count--;
+}
+
+function dropNewest(h: History) {
+  const i = (h.start + h.count - 1) % h.slots.length;
+  h.bytes -= h.slots[i]!.bytes;
+  h.slots[i] = null;
+  h.count--;
+}
+
+/**
+ * Snapshot the engine if at least `interval` has passed since the newest entry.
+ * Entries later than the point the engine was seeked (or jumped back) to belong
+ * to the run being replaced, so they are discarded first: that is the branch.
+ */
+export function recordHistory(h: History, engine: Engine): boolean {
+  const t = engine.t;
+  const from = Math.min(h.cursor, t);
+  h.cursor = t;
+  while (h.count > 0 && historyEntry(h, h.count - 1).t > from) dropNewest(h);
+  if (h.count > 0 && t - historyEntry(h, h.count - 1).t < h.interval) return false;
+
+  const state = cloneState(engine.state);
+  const bytes = 64 * state.n; // pos + vel (3 each) + mass + radius, 8 bytes apiece
+  while (h.count > 0 && (h.count === h.slots.length || h.bytes + bytes > h.budget)) dropOldest(h);
+  h.slots[(h.start + h.count) % h.slots.length] = {
+    t,
+    bodies: engine.bodies,
+    state,
+    conserved0: structuredClone(engine.conserved0),
+    bytes,
+  };
+  h.count++;
+  h.bytes += bytes;
+  return true;
+}
+
+/** Index of the latest entry at or before t (the oldest if t precedes them all); -1 if empty. */
+export function findHistoryEntry(h: History, t: number): number {
+  let lo = 0, hi = h.count - 1, best = h.count > 0 ? 0 : -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (historyEntry(h, mid).t <= t) { best = mid; lo = mid + 1; }
+    else hi = mid - 1;
+  }
+  return best;
+}
+
+/**
+ * Put the engine back into the latest snapshot at or before t. Later entries
+ * stay (seeking forward again is fine) until the run records past this point.
+ * Returns false if there is nothing to restore.
+ */
+export function seekHistory(h: History, engine: Engine, t: number): boolean {
+  const k = findHistoryEntry(h, t);
+  if (k < 0) return false;
+  const entry = historyEntry(h, k);
+  // the entry keeps its own copy, so the same snapshot can be restored again
+  engine.bodies = entry.bodies;
+  engine.state = cloneState(entry.state);
+  engine.t = entry.t;
+  engine.adaptive = createAdaptiveState();
+  engine.sunIndex = Math.max(0, indexOfBody(entry.bodies, "sun"));
+  engine.conserved0 = structuredClone(entry.conserved0);
+  engine.events = [];
+  engine.precession = createPrecessionFit();
+  h.cursor = entry.t;
+  return true;
+}
+
+/**
+ * Recorded path of each of `bodies` up to time t, oldest first, as flat xyz
+ * (Float32, render-ready). Bodies absent from a snapshot (not yet spawned,
+ * or since merged away) simply have fewer points.
+ */
+export function historyTrails(h: History, bodies: Body[], t: number): Record<string, Float32Array> {
+  const last = findHistoryEntry(h, t);
+  const pts: number[][] = bodies.map(() => []);
+  for (let k = 0; k <= last; k++) {
+    const e = historyEntry(h, k);
+    if (e.t > t) break;
+    bodies.forEach((b, j) => {
+      const i = e.bodies === bodies ? j : indexOfBody(e.bodies, b.id);
+      if (i >= 0) pts[j].push(e.state.pos[3*i], e.state.pos[3*i+1], e.state.pos[3*i+2]);
+    });
+  }
+  const out: Record<string, Float32Array> = {};
+  bodies.forEach((b, j) => { out[b.id] = Float32Array.from(pts[j]); });
+  return out;
+}
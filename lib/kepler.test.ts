@@ -0,0 +1,158 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  elementsToState,
+  keplerDrift,
+  meanToTrueAnomaly,
+  propagateKepler,
+  solveLambert,
+  solveBarker,
+  solveKeplerElliptic,
+  solveKeplerHyperbolic,
+  stateToElements,
+  trueToMeanAnomaly,
+  type KeplerElements,
+} from "~/lib/kepler";
+
+const MU = 2.959122082855911e-4; // G M☉, AU³/day²
+
+function close(actual: number, expected: number, tol: number, what: string) {
+  assert.ok(Math.abs(actual - expected) <= tol, `${what}: ${actual} vs ${expected}`);
+}
+
+/** Difference of two angles folded into (−π, π]. */
+const angleDiff = (a: number, b: number) => Math.atan2(Math.sin(a - b), Math.cos(a - b));
+
+test("elementsToState → stateToElements returns the elements for ellipses and hyperbolae", () => {
+  const cases: { el: KeplerElements; M: number }[] = [
+    { el: { a: 1, e: 0.0167, i: 0.00005, Omega: 3.05, w: 5.03 }, M: 6.24 },
+    { el: { a: 0.387, e: 0.2056, i: 0.122, Omega: 0.843, w: 0.508 }, M: 3.05 },
+    { el: { a: 17.8, e: 0.967, i: 2.83, Omega: 1.02, w: 1.95 }, M: 0.1 },
+    { el: { a: -2.5, e: 1.8, i: 0.6, Omega: 4.0, w: 2.2 }, M: -1.3 },
+    { el: { a: -0.01, e: 12, i: 1.2, Omega: 0.3, w: 0.7 }, M: 40 },
+  ];
+  for (const { el, M } of cases) {
+    const s = elementsToState(el, M, MU);
+    const back = stateToElements(s.pos, s.vel, MU);
+    close(back.a, el.a, 1e-9 * Math.abs(el.a), "a");
+    close(back.e, el.e, 1e-10, "e");
+    close(back.i, el.i, 1e-10, "i");
+    close(angleDiff(back.Omega, el.Omega), 0, 1e-9, "Ω");
+    close(angleDiff(back.w, el.w), 0, 1e-8, "ω");
+    close(el.e < 1 ? angleDiff(back.M, M) : back.M - M, 0, 1e-8 * Math.max(1, Math.abs(M)), "M");
+  }
+});
+
+test("stateToElements → elementsToState returns the state, degenerate angles included", () => {
+  const states: [number, number, number][][] = [
+    [[1, 0, 0], [0, 0.0172, 0]],                  // circular, equatorial
+    [[0.3, -0.9, 0.1], [0.015, 0.006, 0.004]],    // inclined ellipse
+    [[0, 0.7, 0.7], [0, -0.0146, 0.0146]],        // polar
+    [[-0.7, 0.2, 0], [-0.004, -0.03, 0]],         // equatorial hyperbola
+    [[0.5, 0.5, 0], [-0.01, 0.01, 0]],            // equatorial ellipse
+    [[1, 0, 0], [0, -0.0172, 0]],                 // circular, equatorial, retrograde
+  ];
+  for (const [pos, vel] of states) {
+    const el = stateToElements(pos, vel, MU);
+    const s = elementsToState(el, el.M, MU);
+    for (let c = 0; c < 3; c++) {
+      close(s.pos[c], pos[c], 1e-12, `pos[${c}] of ${pos}`);
+      close(s.vel[c], vel[c], 1e-14, `vel[${c}] of ${pos}`);
+    }
+  }
+});
+
+test("stateToElements gives the textbook elements of a circular orbit", () => {
+  const v = Math.sqrt(MU);
+  const el = stateToElements([0, 1, 0], [-v, 0, 0], MU);
+  close(el.a, 1, 1e-12, "a");
+  close(el.e, 0, 1e-12, "e");
+  close(el.i, 0, 1e-12, "i");
+  close(el.p, 1, 1e-12, "p");
+  close(el.nu, Math.PI / 2, 1e-12, "true longitude");
+});
+
+test("solveKeplerElliptic satisfies M = E − e sin E up to e → 1, on M's branch", () => {
+  for (const e of [0, 0.0167, 0.5, 0.9, 0.99, 0.999999]) {
+    for (const M of [-20, -Math.PI, -1e-3, 0, 1e-9, 0.3, 2, Math.PI, 7, 100]) {
+      const E = solveKeplerElliptic(M, e);
+      close(E - e * Math.sin(E), M, 1e-12 * Math.max(1, Math.abs(M)), `e = ${e}, M = ${M}`);
+      assert.ok(Math.abs(E - M) <= e + 1e-12, `E on the wrong branch for M = ${M}`);
+    }
+  }
+});
+
+test("solveKeplerHyperbolic satisfies M = e sinh F − F from near-parabolic to very open", () => {
+  for (const e of [1.000001, 1.01, 1.5, 3, 50]) {
+    for (const M of [-1e4, -5, -1e-6, 0, 1e-8, 0.5, 10, 1e4]) {
+      const F = solveKeplerHyperbolic(M, e);
+      close(e * Math.sinh(F) - F, M, 1e-11 * Math.max(1, Math.abs(M)), `e = ${e}, M = ${M}`);
+    }
+  }
+});
+
+test("solveBarker satisfies M = D + D³/3 and is odd in M", () => {
+  for (const M of [0, 1e-12, 1e-3, 1, 42, 1e6]) {
+    const D = solveBarker(M);
+    close(D + D * D * D / 3, M, 1e-12 * Math.max(1, M), `M = ${M}`);
+    assert.equal(solveBarker(-M), -D);
+  }
+});
+
+test("meanToTrueAnomaly and trueToMeanAnomaly are inverses for every kind of conic", () => {
+  for (const e of [0, 0.3, 0.95, 1, 1.2, 4]) {
+    for (const nu of [-1.5, -0.5, 0, 0.1, 1, 1.7]) { // inside e = 4's asymptotes
+      const M = trueToMeanAnomaly(nu, e);
+      const back = meanToTrueAnomaly(M, e);
+      close(e < 1 ? angleDiff(back, nu) : back - nu, 0, 1e-10, `e = ${e}, ν = ${nu}`);
+    }
+  }
+});
+
+test("propagateKepler agrees with the universal-variable drift and closes an orbit", () => {
+  const cases: [number, number, number][][] = [
+    [[0.3, -0.9, 0.1], [0.015, 0.006, 0.004]],  // ellipse
+    [[-0.7, 0.2, 0], [-0.004, -0.03, 0]],       // hyperbola
+    [[1, 0, 0], [0, Math.sqrt(2 * MU), 0]],     // parabola (universal variables)
+  ];
+  for (const [pos, vel] of cases) {
+    const p1 = [...pos], v1 = [...vel], p2 = [...pos], v2 = [...vel];
+    propagateKepler(p1, v1, 0, MU, 137);
+    keplerDrift(p2, v2, 0, MU, 137);
+    for (let c = 0; c < 3; c++) {
+      close(p1[c], p2[c], 1e-10, `pos[${c}] of ${pos}`);
+      close(v1[c], v2[c], 1e-12, `vel[${c}] of ${pos}`);
+    }
+  }
+
+  const pos = [0.3, -0.9, 0.1], vel = [0.015, 0.006, 0.004];
+  const { a } = stateToElements(pos, vel, MU);
+  const period = 2 * Math.PI * Math.sqrt(a * a * a / MU);
+  const p = [...pos], v = [...vel];
+  propagateKepler(p, v, 0, MU, period);
+  for (let c = 0; c < 3; c++) close(p[c], pos[c], 1e-11, `pos[${c}] after one period`);
+});
+
+test("solveLambert's arc reaches r2 after tof, elliptic and hyperbolic, on the prograde side", () => {
+  const r1: [number, number, number] = [1, 0.1, 0.02];
+  for (const r2 of [[-0.4, 1.4, 0.05], [1.2, -0.9, -0.1], [0.2, 1.1, 0]] as [number, number, number][]) {
+    for (const tof of [5, 60, 250, 600]) {
+      const arc = solveLambert(r1, r2, tof, MU);
+      assert.ok(arc, `no arc for ${r2} in ${tof} d`);
+      const p = [...r1], v = [...arc.v1];
+      keplerDrift(p, v, 0, MU, tof);
+      for (let c = 0; c < 3; c++) {
+        close(p[c], r2[c], 1e-9, `r2[${c}] of ${r2} in ${tof} d`);
+        close(v[c], arc.v2[c], 1e-9 * Math.hypot(...arc.v2), `v2[${c}] of ${r2} in ${tof} d`);
+      }
+      const hz = r1[0] * arc.v1[1] - r1[1] * arc.v1[0];
+      assert.ok(hz > 0, `retrograde arc for ${r2} in ${tof} d`);
+    }
+  }
+});
+
+test("solveLambert has no arc for tof ≤ 0 or collinear endpoints", () => {
+  assert.equal(solveLambert([1, 0, 0], [0, 1, 0], 0, MU), null);
+  assert.equal(solveLambert([1, 0, 0], [0, 1, 0], -10, MU), null);
+  assert.equal(solveLambert([1, 0, 0], [-1.5, 0, 0], 200, MU), null);
+});
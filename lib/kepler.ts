@@ -1,12 +1,17 @@
 // lib/kepler.ts
 export type KeplerElements = {
   a: number;     // semi-major axis (AU)
-  e: number;     // eccentricity [0..1)
+  e: number;     // eccentricity ([0..1) ellipse, 1 parabola, > 1 with a < 0 hyperbola)
   i: number;     // inclination (rad)
   Omega: number; // RAAN (rad)
   w: number;     // argument of periapsis (rad)
+  p?: number;    // semi-latus rectum (AU); defaults to a(1 − e²), needed for parabolas (a = ∞)
 };
 
+function semiLatusRectum(el: KeplerElements): number {
+  return el.p ?? el.a * (1 - el.e * el.e);
+}
+
 function rotZ(v: [number,number,number], a: number): [number,number,number] {
   const [x,y,z] = v; const c = Math.cos(a), s = Math.sin(a);
   return [c*x - s*y, s*x + c*y, z];
@@ -16,16 +21,34 @@ function rotX(v: [number,number,number], a: number): [number,number,number] {
   return [x, c*y - s*z, s*y + c*z];
 }
 
-/** Return 3D points of an orbit ellipse in inertial frame centered on the parent. */
-export function ellipsePoints(el: KeplerElements, samples = 512): [number,number,number][] {
-  const { a, e, i, Omega, w } = el;
-  const b = a * Math.sqrt(1 - e*e);
+/** Open orbits (and ellipses reaching further out) are cut off at this distance by default (AU). */
+export const CONIC_MAX_R = 100;
+
+/**
+ * Return 3D points of an orbit conic in inertial frame centered on the parent.
+ * Ellipses that stay within `maxR` come back as a closed loop. Parabolas and
+ * hyperbolae only exist for |ν| below the asymptote angle acos(−1/e), so they
+ * are sampled periapsis-centred over the arc with r ≤ maxR (an open polyline);
+ * empty if even periapsis lies beyond `maxR`.
+ */
+export function ellipsePoints(el: KeplerElements, samples = 512, maxR = CONIC_MAX_R): [number,number,number][] {
+  const { e, i, Omega, w } = el;
+  const semi = semiLatusRectum(el);
+  if (!(semi > 0)) return [];
+
+  // r(ν) = p / (1 + e cos ν) ≤ maxR  ⇔  cos ν ≥ (p/maxR − 1) / e
+  const cosMin = e > 0 ? (semi / maxR - 1) / e : -1;
+  if (cosMin > 1) return [];
+  const closed = cosMin <= -1;
+  const nuMax = closed ? Math.PI : Math.acos(cosMin);
 
-  // Build ellipse in its orbital plane (periapsis on +x)
+  // Build the conic in its orbital plane (periapsis on +x)
   const pts: [number,number,number][] = [];
-  for (let k = 0; k < samples; k++) {
-    const theta = (k / samples) * Math.PI * 2;
-    const r = (a*(1 - e*e)) / (1 + e*Math.cos(theta)); // polar form
+  for (let k = 0; k <= samples; k++) {
+    const theta = closed
+      ? (k / samples) * Math.PI * 2 // k = samples repeats k = 0 and closes the loop
+      : -nuMax + (2 * nuMax * k) / samples;
+    const r = semi / (1 + e*Math.cos(theta)); // polar form
     let p: [number,number,number] = [r*Math.cos(theta), r*Math.sin(theta), 0];
 
     // Rotate by argument of periapsis, inclination, RAAN:  Rz(Ω) * Rx(i) * Rz(ω) * p
@@ -37,3 +60,355 @@ export function ellipsePoints(el: KeplerElements, samples = 512): [number,number
   }
   return pts;
 }
+
+/**
+ * Point on the conic at true anomaly ν, relative to the focus (no μ needed).
+ * ν = 0 is periapsis, ν = π apoapsis (ellipses), ν = −ω the ascending node.
+ */
+export function orbitPoint(el: KeplerElements, nu: number): [number,number,number] {
+  const { e, i, Omega, w } = el;
+  const r = semiLatusRectum(el) / (1 + e * Math.cos(nu));
+  return rotZ(rotX(rotZ([r * Math.cos(nu), r * Math.sin(nu), 0], w), i), Omega);
+}
+
+/** Stumpff functions C(z), S(z) used by the universal-variable formulation. */
+function stumpffC(z: number): number {
+  if (z > 1e-6) return (1 - Math.cos(Math.sqrt(z))) / z;
+  if (z < -1e-6) return (Math.cosh(Math.sqrt(-z)) - 1) / -z;
+  return 1/2 - z/24 + z*z/720;
+}
+function stumpffS(z: number): number {
+  if (z > 1e-6) { const sz = Math.sqrt(z); return (sz - Math.sin(sz)) / (sz*sz*sz); }
+  if (z < -1e-6) { const sz = Math.sqrt(-z); return (Math.sinh(sz) - sz) / (sz*sz*sz); }
+  return 1/6 - z/120 + z*z/5040;
+}
+
+/**
+ * Advance a two-body state (relative to the primary) by dt along its exact
+ * conic, in place. Universal variables, so elliptic, parabolic and hyperbolic
+ * motion are all handled. `o` is the offset of the x component in pos/vel.
+ */
+export function keplerDrift(
+  pos: Float64Array | number[],
+  vel: Float64Array | number[],
+  o: number,
+  mu: number,
+  dt: number
+): void {
+  const rx = pos[o], ry = pos[o+1], rz = pos[o+2];
+  const vx = vel[o], vy = vel[o+1], vz = vel[o+2];
+  const r0 = Math.hypot(rx, ry, rz);
+  if (r0 === 0 || mu <= 0 || dt === 0) return;
+
+  const v2 = vx*vx + vy*vy + vz*vz;
+  const sqmu = Math.sqrt(mu);
+  const rv = (rx*vx + ry*vy + rz*vz) / sqmu;   // r·v / √μ
+  const alpha = 2 / r0 - v2 / mu;              // 1/a (negative for hyperbolae)
+
+  // Newton iteration on the universal anomaly χ
+  let chi = alpha > 0 ? sqmu * dt * alpha : sqmu * dt / r0;
+  for (let it = 0; it < 50; it++) {
+    const z = alpha * chi * chi;
+    const C = stumpffC(z), S = stumpffS(z);
+    const F = rv * chi*chi * C + (1 - alpha*r0) * chi*chi*chi * S + r0 * chi - sqmu * dt;
+    const dF = rv * chi * (1 - z*S) + (1 - alpha*r0) * chi*chi * C + r0; // = r(χ)
+    const d = F / dF;
+    chi -= d;
+    if (Math.abs(d) <= 1e-14 * Math.max(1, Math.abs(chi))) break;
+  }
+
+  const z = alpha * chi * chi;
+  const C = stumpffC(z), S = stumpffS(z);
+  const f = 1 - chi*chi / r0 * C;
+  const g = dt - chi*chi*chi / sqmu * S;
+  const nx = f*rx + g*vx, ny = f*ry + g*vy, nz = f*rz + g*vz;
+  const r = Math.hypot(nx, ny, nz);
+  const fd = sqmu / (r * r0) * (z * S - 1) * chi;
+  const gd = 1 - chi*chi / r * C;
+
+  pos[o] = nx; pos[o+1] = ny; pos[o+2] = nz;
+  vel[o] = fd*rx + gd*vx; vel[o+1] = fd*ry + gd*vy; vel[o+2] = fd*rz + gd*vz;
+}
+
+const TWO_PI = 2 * Math.PI;
+const wrap = (x: number) => ((x % TWO_PI) + TWO_PI) % TWO_PI;
+
+/**
+ * Root of a monotonically increasing f inside [lo, hi]: Newton from x0,
+ * falling back to bisection whenever a step would leave the bracket, so it
+ * converges for any e (including e → 1, where plain Newton can overshoot).
+ */
+function bracketedNewton(
+  f: (x: number) => number,
+  df: (x: number) => number,
+  lo: number,
+  hi: number,
+  x0: number
+): number {
+  let x = Math.min(hi, Math.max(lo, x0));
+  for (let it = 0; it < 100; it++) {
+    const y = f(x);
+    if (y === 0) return x;
+    if (y > 0) hi = x; else lo = x;
+    const d = df(x);
+    let next = x - y / d;
+    if (!(next > lo && next < hi)) next = 0.5 * (lo + hi); // also catches d = 0 / NaN
+    if (Math.abs(next - x) <= 1e-15 * Math.max(1, Math.abs(next))) return next;
+    x = next;
+  }
+  return x;
+}
+
+/** Eccentric anomaly E from M = E − e sin E (0 ≤ e < 1); E has M's 2π branch. */
+export function solveKeplerElliptic(M: number, e: number): number {
+  // reduce to (−π, π]; the root then lies between M and M + e·sign(M)
+  const k = Math.round(M / TWO_PI);
+  const m = M - k * TWO_PI;
+  const lo = m >= 0 ? m : Math.max(-Math.PI, m - e);
+  const hi = m >= 0 ? Math.min(Math.PI, m + e) : m;
+  const E = bracketedNewton(
+    x => x - e * Math.sin(x) - m,
+    x => 1 - e * Math.cos(x),
+    lo, hi,
+    m + 0.85 * e * Math.sign(Math.sin(m)),   // Danby's starter
+  );
+  return E + k * TWO_PI;
+}
+
+/** Hyperbolic anomaly F from M = e sinh F − F (e > 1). */
+export function solveKeplerHyperbolic(M: number, e: number): number {
+  if (M === 0) return 0;
+  const m = Math.abs(M);
+  // e sinh F ≥ M bounds F below; (e − 1)F ≤ M and e F³/6 ≤ M bound it above
+  const lo = Math.asinh(m / e);
+  const hi = Math.min(m / (e - 1), Math.cbrt(6 * m / e));
+  const F = bracketedNewton(
+    x => e * Math.sinh(x) - x - m,
+    x => e * Math.cosh(x) - 1,
+    lo, hi,
+    m > 6 * e ? Math.log(2 * m / e) : lo,
+  );
+  return Math.sign(M) * F;
+}
+
+/** Parabolic anomaly D = tan(ν/2) from Barker's equation M = D + D³/3 (closed form). */
+export function solveBarker(M: number): number {
+  // D³ + 3D − 3M = 0 has one real root; odd in M, solved for |M| to avoid cancellation
+  const m = Math.abs(M);
+  const y = Math.cbrt(1.5 * m + Math.sqrt(2.25 * m * m + 1));
+  return Math.sign(M) * (y - 1 / y);
+}
+
+/**
+ * True anomaly ν from mean anomaly M. Elliptic (e < 1) via E, hyperbolic
+ * (e > 1) via F with M = e sinh F − F, parabolic (e = 1) via Barker's
+ * equation with M = D + D³/3, D = tan(ν/2).
+ */
+export function meanToTrueAnomaly(M: number, e: number): number {
+  if (e < 1) {
+    const E = solveKeplerElliptic(wrap(M), e);
+    return wrap(Math.atan2(Math.sqrt(1 - e*e) * Math.sin(E), Math.cos(E) - e));
+  }
+  if (e > 1) {
+    const F = solveKeplerHyperbolic(M, e);
+    return 2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(F / 2));
+  }
+  return 2 * Math.atan(solveBarker(M));
+}
+
+/** Mean anomaly from true anomaly (inverse of meanToTrueAnomaly; [0, 2π) for ellipses). */
+export function trueToMeanAnomaly(nu: number, e: number): number {
+  if (e < 1) {
+    const E = Math.atan2(Math.sqrt(1 - e*e) * Math.sin(nu), e + Math.cos(nu));
+    return wrap(E - e * Math.sin(E));
+  }
+  if (e > 1) {
+    const F = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * Math.tan(nu / 2));
+    return e * Math.sinh(F) - F;
+  }
+  const D = Math.tan(nu / 2);
+  return D + D*D*D / 3;
+}
+
+/**
+ * Osculating elements of a two-body state, plus where the body is along the
+ * orbit. Hyperbolic orbits have e > 1 and a < 0 (M then runs over all reals).
+ * Angles that are undefined are set to 0 and folded into the next one:
+ *   - equatorial (i = 0 or π): Ω = 0, ω is measured from +x (longitude of periapsis);
+ *   - circular (e = 0): ω = 0, ν is measured from the node (argument of latitude),
+ *     or from +x if the orbit is also equatorial (true longitude).
+ */
+export type OrbitalElements = KeplerElements & {
+  p: number;    // h²/μ, finite for parabolas too
+  nu: number;   // true anomaly (rad)
+  M: number;    // mean anomaly (rad)
+};
+
+const ELEMENT_EPS = 1e-11;
+
+/** Elements of (pos, vel) relative to a primary with gravitational parameter mu = G(m₀ + m). */
+export function stateToElements(
+  pos: ArrayLike<number>,
+  vel: ArrayLike<number>,
+  mu: number
+): OrbitalElements {
+  const rx = pos[0], ry = pos[1], rz = pos[2];
+  const vx = vel[0], vy = vel[1], vz = vel[2];
+  const r = Math.hypot(rx, ry, rz);
+  const v2 = vx*vx + vy*vy + vz*vz;
+  const rv = rx*vx + ry*vy + rz*vz;
+
+  // angular momentum, node vector (ẑ × h) and eccentricity vector
+  const hx = ry*vz - rz*vy, hy = rz*vx - rx*vz, hz = rx*vy - ry*vx;
+  const h = Math.hypot(hx, hy, hz);
+  const nx = -hy, ny = hx;
+  const n = Math.hypot(nx, ny);
+  const k = v2 - mu / r;
+  const ex = (k*rx - rv*vx) / mu, ey = (k*ry - rv*vy) / mu, ez = (k*rz - rv*vz) / mu;
+  const e = Math.hypot(ex, ey, ez);
+
+  const a = 1 / (2 / r - v2 / mu);
+  const i = h > 0 ? Math.acos(Math.min(1, Math.max(-1, hz / h))) : 0;
+  const equatorial = n <= ELEMENT_EPS * h;
+  const Omega = equatorial ? 0 : wrap(Math.atan2(ny, nx));
+
+  // signed angle from u to w about ĥ
+  const angle = (ux: number, uy: number, uz: number, wx: number, wy: number, wz: number) => {
+    const cx = uy*wz - uz*wy, cy = uz*wx - ux*wz, cz = ux*wy - uy*wx;
+    return Math.atan2((cx*hx + cy*hy + cz*hz) / h, ux*wx + uy*wy + uz*wz);
+  };
+
+  let w = 0, nu: number;
+  if (e > ELEMENT_EPS) {
+    w = equatorial ? wrap(Math.sign(hz || 1) * Math.atan2(ey, ex)) : wrap(angle(nx, ny, 0, ex, ey, ez));
+    nu = angle(ex, ey, ez, rx, ry, rz);
+  } else {
+    nu = equatorial ? Math.sign(hz || 1) * Math.atan2(ry, rx) : angle(nx, ny, 0, rx, ry, rz);
+  }
+  if (e < 1) nu = wrap(nu);
+
+  return { a, e, i, Omega, w, p: h * h / mu, nu, M: trueToMeanAnomaly(nu, e) };
+}
+
+/**
+ * Position/velocity relative to the primary at true anomaly ν, for any conic
+ * with p > 0 (ellipse, parabola given `p`, or hyperbola with a < 0). Same
+ * frame and rotation order as `ellipsePoints`.
+ */
+export function trueAnomalyToState(
+  el: KeplerElements,
+  nu: number,
+  mu: number
+): { pos: [number,number,number]; vel: [number,number,number] } {
+  const { e, i, Omega, w } = el;
+  const p = semiLatusRectum(el);
+  const cosNu = Math.cos(nu), sinNu = Math.sin(nu);
+  const r = p / (1 + e * cosNu);
+  const vk = Math.sqrt(mu / p);
+
+  // perifocal frame, periapsis on +x
+  const q: [number,number,number] = [r * cosNu, r * sinNu, 0];
+  const v: [number,number,number] = [-vk * sinNu, vk * (e + cosNu), 0];
+
+  // Rz(Ω) * Rx(i) * Rz(ω)
+  return {
+    pos: rotZ(rotX(rotZ(q, w), i), Omega),
+    vel: rotZ(rotX(rotZ(v, w), i), Omega),
+  };
+}
+
+/** Position/velocity relative to the primary at mean anomaly M (rad). */
+export function elementsToState(
+  el: KeplerElements,
+  M: number,
+  mu: number
+): { pos: [number,number,number]; vel: [number,number,number] } {
+  return trueAnomalyToState(el, meanToTrueAnomaly(M, el.e), mu);
+}
+
+/**
+ * Advance a two-body state (relative to the primary) by dt in place, through
+ * the elements: M moves at the mean motion and the Kepler solver gives the new
+ * ν. Near-parabolic (|e − 1| < 1e-6) and radial orbits, where a and M lose
+ * precision, go through keplerDrift's universal variables instead.
+ */
+export function propagateKepler(
+  pos: Float64Array | number[],
+  vel: Float64Array | number[],
+  o: number,
+  mu: number,
+  dt: number
+): void {
+  if (dt === 0 || !(mu > 0)) return;
+  const r = [pos[o], pos[o+1], pos[o+2]], v = [vel[o], vel[o+1], vel[o+2]];
+  const el = stateToElements(r, v, mu);
+  if (!Number.isFinite(el.nu) || !Number.isFinite(el.a) || Math.abs(el.e - 1) < 1e-6) {
+    keplerDrift(pos, vel, o, mu, dt);
+    return;
+  }
+  const n = Math.sqrt(mu / Math.abs(el.a * el.a * el.a));
+  const s = trueAnomalyToState(el, meanToTrueAnomaly(el.M + n * dt, el.e), mu);
+  pos[o] = s.pos[0]; pos[o+1] = s.pos[1]; pos[o+2] = s.pos[2];
+  vel[o] = s.vel[0]; vel[o+1] = s.vel[1]; vel[o+2] = s.vel[2];
+}
+
+/**
+ * Lambert's problem: the single-revolution two-body arc from r1 to r2 (relative
+ * to the primary) taking `tof` days. Universal variables, bisecting on
+ * z = χ²/a, over which the time of flight grows monotonically, so elliptic and
+ * hyperbolic transfers converge alike. `prograde` picks the arc with h·ẑ > 0
+ * (the long way round when the short one would be retrograde). Null when the
+ * arc is undefined: tof ≤ 0, or r1 and r2 (anti)parallel, where the transfer
+ * plane is not fixed.
+ */
+export function solveLambert(
+  r1: ArrayLike<number>,
+  r2: ArrayLike<number>,
+  tof: number,
+  mu: number,
+  prograde = true
+): { v1: [number,number,number]; v2: [number,number,number] } | null {
+  if (!(tof > 0) || !(mu > 0)) return null;
+  const n1 = Math.hypot(r1[0], r1[1], r1[2]), n2 = Math.hypot(r2[0], r2[1], r2[2]);
+  const cz = r1[0]*r2[1] - r1[1]*r2[0];
+  const cosDnu = (r1[0]*r2[0] + r1[1]*r2[1] + r1[2]*r2[2]) / (n1 * n2);
+  let dnu = Math.acos(Math.min(1, Math.max(-1, cosDnu)));
+  if ((cz < 0) === prograde) dnu = TWO_PI - dnu;
+  const A = Math.sin(dnu) * Math.sqrt(n1 * n2 / (1 - cosDnu));
+  if (!(Math.abs(A) > 1e-12 * (n1 + n2)) || !Number.isFinite(A)) return null;
+
+  const sqmu = Math.sqrt(mu);
+  const y = (z: number) => n1 + n2 + A * (z * stumpffS(z) - 1) / Math.sqrt(stumpffC(z));
+  // time of flight at z; y < 0 lies below the physical range (only reachable with A > 0)
+  const time = (z: number) => {
+    const yz = y(z);
+    if (yz < 0) return -Infinity;
+    const C = stumpffC(z);
+    return (Math.pow(yz / C, 1.5) * stumpffS(z) + A * Math.sqrt(yz)) / sqmu;
+  };
+
+  // z < 4π² keeps it to one revolution (the time diverges there, but C and S lose
+  // all precision right at it); widen the hyperbolic side until it brackets tof
+  let lo = -4 * Math.PI * Math.PI, hi = 4 * Math.PI * Math.PI - 1e-4;
+  while (time(lo) > tof && lo > -1e6) lo *= 2;
+  if (time(hi) < tof) return null; // needs more than a revolution
+  let z = 0;
+  for (let it = 0; it < 200; it++) {
+    z = 0.5 * (lo + hi);
+    const t = time(z);
+    if (Math.abs(t - tof) <= 1e-12 * tof) break;
+    if (t < tof) lo = z; else hi = z;
+  }
+
+  const yz = y(z);
+  if (!(yz > 0)) return null;
+  const f = 1 - yz / n1;
+  const g = A * Math.sqrt(yz / mu);
+  const gd = 1 - yz / n2;
+  const v1: [number,number,number] = [0, 0, 0], v2: [number,number,number] = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    v1[c] = (r2[c] - f * r1[c]) / g;
+    v2[c] = (gd * r2[c] - r1[c]) / g;
+  }
+  return { v1, v2 };
+}
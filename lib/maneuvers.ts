@@ -0,0 +1,99 @@
+// lib/maneuvers.ts
+// Scheduled burns, turned into velocity kicks (impulsive) or ExtraAccel
+// contributions (finite) by the engine.
+import type { Body } from "~/lib/bodies";
+import { M_PER_S_TO_AU_PER_DAY, type ExtraAccel } from "~/lib/physics";
+import { indexOfBody, type SimState } from "~/lib/simstate";
+
+/**
+ * Thrust direction. prograde/radial/normal form the local orbital frame of
+ * the target relative to `ref` (v̂, r̂, r×v); "toward" points at `ref`.
+ * A negative Δv flips the direction (retrograde, inward, anti-normal, away).
+ */
+export type BurnFrame = "prograde" | "radial" | "normal" | "toward";
+
+export type Burn = {
+  id: string;
+  target: string;      // body id that is pushed (usually "payload")
+  t: number;           // start, sim days
+  duration: number;    // days; 0 = impulsive
+  dv: number;          // m/s (signed)
+  frame: BurnFrame;
+  ref: string;         // body id the frame is relative to
+};
+
+/**
+ * Unit thrust direction for body i (false if the frame is undefined, e.g. r = 0).
+ * `velSign` = −1 when the state holds reversed velocities (backward propagation).
+ */
+function direction(
+  state: SimState, i: number, r: number, frame: BurnFrame, out: number[], velSign: number
+): boolean {
+  const { pos, vel } = state;
+  const rx = pos[3*i] - pos[3*r], ry = pos[3*i+1] - pos[3*r+1], rz = pos[3*i+2] - pos[3*r+2];
+  const vx = velSign * (vel[3*i] - vel[3*r]);
+  const vy = velSign * (vel[3*i+1] - vel[3*r+1]);
+  const vz = velSign * (vel[3*i+2] - vel[3*r+2]);
+  let x: number, y: number, z: number;
+  switch (frame) {
+    case "prograde": x = vx; y = vy; z = vz; break;
+    case "radial":   x = rx; y = ry; z = rz; break;
+    case "toward":   x = -rx; y = -ry; z = -rz; break;
+    case "normal":
+      x = ry*vz - rz*vy; y = rz*vx - rx*vz; z = rx*vy - ry*vx;
+      break;
+  }
+  const n = Math.hypot(x, y, z);
+  if (!(n > 0)) return false;
+  out[0] = x / n; out[1] = y / n; out[2] = z / n;
+  return true;
+}
+
+const dir = [0, 0, 0];
+
+/**
+ * Apply an impulsive burn as an instantaneous Δv. Returns false if it could not be applied.
+ * With reversed velocities (`velSign` = −1) the same call takes the burn back out.
+ */
+export function applyImpulse(burn: Burn, bodies: Body[], state: SimState, velSign = 1): boolean {
+  const i = indexOfBody(bodies, burn.target), r = indexOfBody(bodies, burn.ref);
+  if (i < 0 || r < 0 || i === r || !direction(state, i, r, burn.frame, dir, velSign)) return false;
+  const dv = burn.dv * M_PER_S_TO_AU_PER_DAY;
+  for (let c = 0; c < 3; c++) state.vel[3*i + c] += dv * dir[c];
+  return true;
+}
+
+/**
+ * ExtraAccel for the finite burns in `active`: constant thrust dv/duration,
+ * steered along the frame as it turns. Undefined if nothing is active.
+ * Under time reversal (reversed velocities, `velSign` = −1) dv/dt is unchanged,
+ * so only the frame needs the true velocity.
+ */
+export function burnAccel(active: Burn[], bodies: Body[], velSign = 1): ExtraAccel {
+  if (!active.length) return undefined;
+  const idx = active.map(b => [indexOfBody(bodies, b.target), indexOfBody(bodies, b.ref)] as const);
+  return (state, acc) => {
+    for (let k = 0; k < active.length; k++) {
+      const [i, r] = idx[k];
+      if (i < 0 || r < 0 || i === r || !direction(state, i, r, active[k].frame, dir, velSign)) continue;
+      const a = active[k].dv * M_PER_S_TO_AU_PER_DAY / active[k].duration;
+      acc[3*i] += a * dir[0]; acc[3*i+1] += a * dir[1]; acc[3*i+2] += a * dir[2];
+    }
+  };
+}
+
+/** Nearest burn start/end strictly beyond t in direction `sign` (±Infinity if none), so steps can stop there. */
+export function nextBurnBoundary(burns: Burn[], t: number, sign = 1): number {
+  let next = sign * Infinity;
+  for (const b of burns) {
+    for (const edge of b.duration > 0 ? [b.t, b.t + b.duration] : [b.t]) {
+      if (sign * (edge - t) > 0 && sign * (edge - next) < 0) next = edge;
+    }
+  }
+  return next;
+}
+
+/** Finite burns firing at time t (pass a segment midpoint; segments never cross a boundary). */
+export function activeBurns(burns: Burn[], t: number): Burn[] {
+  return burns.filter(b => b.duration > 0 && b.t <= t && t < b.t + b.duration);
+}
@@ -0,0 +1,117 @@
+// lib/particles.ts
+// Massless test-particle populations (belts, Trojan swarms) generated from
+// distributions of orbital elements around the Sun.
+import { G, type Body } from "~/lib/bodies";
+import { elementsToState } from "~/lib/kepler";
+import { indexOfBody, type SimState } from "~/lib/simstate";
+
+export type Population = "main-belt" | "kuiper" | "trojans";
+
+type Dist =
+  | { kind: "uniform"; min: number; max: number }
+  | { kind: "rayleigh"; sigma: number; max: number };  // truncated at max
+
+type PopulationSpec = {
+  label: string;
+  a: Dist;          // AU (Trojans: relative to Jupiter's distance)
+  e: Dist;
+  iDeg: Dist;
+};
+
+const DEG = Math.PI / 180;
+
+export const POPULATIONS: Record<Population, PopulationSpec> = {
+  "main-belt": {
+    label: "Main belt",
+    a: { kind: "uniform", min: 2.1, max: 3.3 },
+    e: { kind: "rayleigh", sigma: 0.1, max: 0.35 },
+    iDeg: { kind: "rayleigh", sigma: 7, max: 30 },
+  },
+  kuiper: {
+    label: "Kuiper belt",
+    a: { kind: "uniform", min: 39, max: 48 },
+    e: { kind: "rayleigh", sigma: 0.07, max: 0.3 },
+    iDeg: { kind: "rayleigh", sigma: 6, max: 35 },
+  },
+  trojans: {
+    label: "Jupiter Trojans",
+    a: { kind: "uniform", min: 0.97, max: 1.03 },
+    e: { kind: "rayleigh", sigma: 0.05, max: 0.2 },
+    iDeg: { kind: "rayleigh", sigma: 10, max: 35 },
+  },
+};
+
+const TROJAN_SPREAD = 20 * DEG; // libration amplitude around L4/L5
+
+/** Small seeded PRNG (mulberry32) so populations are reproducible. */
+function rng(seed: number) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sample(d: Dist, rand: () => number): number {
+  if (d.kind === "uniform") return d.min + (d.max - d.min) * rand();
+  for (;;) {
+    const x = d.sigma * Math.sqrt(-2 * Math.log(1 - rand()));
+    if (x <= d.max) return x;
+  }
+}
+
+/**
+ * Barycentric pos/vel (flat) for `count` particles on heliocentric Kepler
+ * orbits drawn from the population's a, e, i distributions; Ω, ω and M are
+ * uniform. Trojans are placed ±60° from Jupiter's current mean longitude.
+ * Velocities use the Sun's mass times `massScale`, the one the engine feels.
+ * Returns null if the system lacks the Sun (or Jupiter, for Trojans).
+ */
+export function generatePopulation(
+  kind: Population,
+  count: number,
+  bodies: Body[],
+  state: SimState,
+  massScale: number,
+  seed = 1
+): { pos: Float64Array; vel: Float64Array } | null {
+  const si = indexOfBody(bodies, "sun");
+  if (si < 0 || !(state.mass[si] > 0)) return null;
+  const mu = G * state.mass[si] * massScale;
+  const sx = state.pos[3*si], sy = state.pos[3*si+1], sz = state.pos[3*si+2];
+  const svx = state.vel[3*si], svy = state.vel[3*si+1], svz = state.vel[3*si+2];
+
+  const spec = POPULATIONS[kind];
+  let aScale = 1, lambdaJ = 0;
+  if (kind === "trojans") {
+    const ji = indexOfBody(bodies, "jupiter");
+    if (ji < 0) return null;
+    const dx = state.pos[3*ji] - sx, dy = state.pos[3*ji+1] - sy, dz = state.pos[3*ji+2] - sz;
+    aScale = Math.hypot(dx, dy, dz);
+    lambdaJ = Math.atan2(dy, dx);
+  }
+
+  const rand = rng(seed);
+  const pos = new Float64Array(3 * count);
+  const vel = new Float64Array(3 * count);
+  for (let k = 0; k < count; k++) {
+    const a = aScale * sample(spec.a, rand);
+    const e = sample(spec.e, rand);
+    const i = sample(spec.iDeg, rand) * DEG;
+    const Omega = 2 * Math.PI * rand();
+    const w = 2 * Math.PI * rand();
+    let M = 2 * Math.PI * rand();
+    if (kind === "trojans") {
+      // mean longitude λ = Ω + ω + M near L4 (+60°) or L5 (−60°)
+      const lambda = lambdaJ + (rand() < 0.5 ? 60 : -60) * DEG + (2 * rand() - 1) * TROJAN_SPREAD;
+      M = lambda - Omega - w;
+    }
+    const s = elementsToState({ a, e, i, Omega, w }, M, mu);
+    pos[3*k] = sx + s.pos[0]; pos[3*k+1] = sy + s.pos[1]; pos[3*k+2] = sz + s.pos[2];
+    vel[3*k] = svx + s.vel[0]; vel[3*k+1] = svy + s.vel[1]; vel[3*k+2] = svz + s.vel[2];
+  }
+  return { pos, vel };
+}
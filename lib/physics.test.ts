@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ensurePayloadGEO, makeEphemerisBodies } from "~/lib/bodies";
+import { createAdaptiveState, stepDopri, zeroSystemMomentum } from "~/lib/physics";
+import { createSimState } from "~/lib/simstate";
+import { J2000_JD } from "~/lib/time";
+
+/** Sun, Earth, Moon and a GEO payload at J2000. */
+function earthSystem() {
+  const init = makeEphemerisBodies(J2000_JD, true).filter(b => ["sun", "earth", "moon"].includes(b.id));
+  ensurePayloadGEO(init);
+  zeroSystemMomentum(init);
+  return createSimState(init);
+}
+
+const dist = (a: Float64Array, b: Float64Array, i: number, j = i) =>
+  Math.hypot(a[3*i] - b[3*j], a[3*i+1] - b[3*j+1], a[3*i+2] - b[3*j+2]);
+
+test("stepDopri reports the time it covered when the step budget runs out", () => {
+  const { state } = earthSystem();
+  const ctrl = createAdaptiveState();
+  const covered = stepDopri(state, 10, 1, 1, 1, false, 0, undefined, ctrl, 1e-10, 50, 100);
+  assert.ok(covered > 0 && covered < 10, `covered ${covered}`);
+  assert.equal(ctrl.accepted + ctrl.rejected, 100);
+  assert.equal(ctrl.truncated, 1);
+
+  const rest = stepDopri(state, 1, 1, 1, 1, false, 0, undefined, ctrl);
+  assert.equal(rest, 1);
+  assert.equal(ctrl.truncated, 1);
+});
+
+test("stepDopri holds a GEO payload to the tolerance of its own orbit", () => {
+  const { bodies, state } = earthSystem();
+  const tol = 1e-10;
+  const p = bodies.findIndex(b => b.id === "payload");
+  const e = bodies.findIndex(b => b.id === "earth");
+  const m = bodies.findIndex(b => b.id === "moon");
+  const pos0 = state.pos.slice();
+
+  // forward 10 days, then back by flipping the velocities
+  const ctrl = createAdaptiveState();
+  stepDopri(state, 10, 1, 1, 1, false, 0, undefined, ctrl, tol);
+  for (let k = 0; k < state.vel.length; k++) state.vel[k] = -state.vel[k];
+  stepDopri(state, 10, 1, 1, 1, false, 0, undefined, ctrl, tol);
+
+  // ~3000 steps of local error tol·r each: a few 1e-7 of the orbit at most,
+  // where a heliocentric (1 AU) scale leaves the payload off by ~5e-6
+  const rGeo = dist(pos0, pos0, p, e);
+  assert.ok(dist(state.pos, pos0, p) / rGeo < 1e-6, `payload off by ${dist(state.pos, pos0, p) / rGeo} of its orbit`);
+  const rMoon = dist(pos0, pos0, m, e);
+  assert.ok(dist(state.pos, pos0, m) / rMoon < 1e-6);
+});
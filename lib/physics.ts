@@ -1,7 +1,12 @@
-import { Body, G, SOFTENING2 } from "~/lib/bodies";
+import { BodyInit, G } from "~/lib/bodies";
+import { keplerDrift, propagateKepler } from "~/lib/kepler";
+import { directForces, type ForceBackend } from "~/lib/forces";
+import { scratch, type SimState } from "~/lib/simstate";
+
+export type Integrator = "leapfrog" | "rk4" | "dopri" | "yoshida4" | "yoshida6" | "wh" | "kepler";
 
 export type SimSettings = {
-  integrator: "leapfrog" | "rk4";
+  integrator: Integrator;
   timeScale: number; // multiplier on dt
   dt: number;        // days per tick before timescale
   massScale: number; // global mass multiplier
@@ -11,37 +16,41 @@ export type SimSettings = {
 };
 
 // Handy: deep clone of position/velocity arrays
-export function cloneBodies(bodies: Body[]): Body[] {
+export function cloneBodies(bodies: BodyInit[]): BodyInit[] {
   return bodies.map(b => ({ ...b, position: [...b.position] as any, velocity: [...b.velocity] as any }));
 }
 
 /**
- * Seed simple circular velocities in the ecliptic (XY) plane around the Sun.
+ * Seed simple circular velocities in the ecliptic (XY) plane around each
+ * body's parent (the Sun, `sunId`, if it has none), on top of the parent's own
+ * velocity: parents must come before their moons in the list.
  * This is a convenience used by setup/reset code.
  */
-export function seedCircularVelocities(bodies: Body[], sunId = "sun", clockwise = false): void {
+export function seedCircularVelocities(bodies: BodyInit[], sunId = "sun", clockwise = false): void {
   const sun = bodies.find(b => b.id === sunId);
   if (!sun) return;
   for (const b of bodies) {
     if (b === sun) continue;
-    const rx = b.position[0] - sun.position[0];
-    const ry = b.position[1] - sun.position[1];
-    const rz = b.position[2] - sun.position[2];
+    const parent = (b.parent && bodies.find(p => p.id === b.parent)) || sun;
+    const rx = b.position[0] - parent.position[0];
+    const ry = b.position[1] - parent.position[1];
+    const rz = b.position[2] - parent.position[2];
     const r = Math.hypot(rx, ry, rz);
     if (r === 0) continue;
-    const vmag = Math.sqrt(G * sun.mass / r); // in AU/day
+    const vmag = Math.sqrt(G * parent.mass / r); // in AU/day
     // tangent in XY plane (k × r)
     let tx = -ry, ty = rx, tz = 0;
     let tlen = Math.hypot(tx, ty, tz);
     if (tlen === 0) { tx = 0; ty = -rz; tz = ry; tlen = Math.hypot(tx, ty, tz); }
     tx /= tlen; ty /= tlen; tz /= tlen;
     const s = clockwise ? -1 : 1;
-    b.velocity = [tx * vmag * s, ty * vmag * s, tz * vmag * s];
+    b.velocity = [0, 1, 2].map(c => (parent === sun ? 0 : parent.velocity[c])) as [number, number, number];
+    b.velocity[0] += tx * vmag * s; b.velocity[1] += ty * vmag * s; b.velocity[2] += tz * vmag * s;
   }
 }
 
 /** Zero out linear momentum of whole system (recenters barycenter’s velocity). */
-export function zeroSystemMomentum(bodies: Body[]) {
+export function zeroSystemMomentum(bodies: BodyInit[]) {
   let px = 0, py = 0, pz = 0, msum = 0;
   for (const b of bodies) { px += b.velocity[0] * b.mass; py += b.velocity[1] * b.mass; pz += b.velocity[2] * b.mass; msum += b.mass; }
   if (msum === 0) return;
@@ -49,44 +58,36 @@ export function zeroSystemMomentum(bodies: Body[]) {
   for (const b of bodies) { b.velocity[0] -= vx; b.velocity[1] -= vy; b.velocity[2] -= vz; }
 }
 
-/** Optional extra accelerations hook (e.g., thrust). */
-export type ExtraAccel = ((bodies: Body[]) => ([number, number, number][])) | undefined;
-
-/** Compute accelerations for all bodies (O(N^2)). */
-function computeAccelerations(
-  bodies: Body[],
-  massScale: number
-): [Float64Array, Float64Array, Float64Array] {
-  const N = bodies.length;
-  const ax = new Float64Array(N);
-  const ay = new Float64Array(N);
-  const az = new Float64Array(N);
-
-  for (let i = 0; i < N; i++) {
-    for (let j = i + 1; j < N; j++) {
-      const dx = bodies[j].position[0] - bodies[i].position[0];
-      const dy = bodies[j].position[1] - bodies[i].position[1];
-      const dz = bodies[j].position[2] - bodies[i].position[2];
-
-      const r2 = dx*dx + dy*dy + dz*dz + SOFTENING2;
-      const invR = 1.0 / Math.sqrt(r2);
-      const invR3 = invR / r2;
+/**
+ * Optional extra accelerations hook (e.g., thrust).
+ * Called with the state at the evaluation point; ADD the extra accelerations
+ * (AU/day², flat xyz layout) into `acc`.
+ */
+export type ExtraAccel = ((state: SimState, acc: Float64Array) => void) | undefined;
 
-      // acceleration magnitude factor
-      const f = G * invR3;
-      const s1 = f * bodies[j].mass * massScale;
-      const s2 = f * bodies[i].mass * massScale;
+/** massScale-applied masses, cached in the state's scratch space. */
+function scaledMasses(state: SimState, massScale: number): Float64Array {
+  const m = scratch(state, "mass", state.n);
+  for (let i = 0; i < state.n; i++) m[i] = state.mass[i] * massScale;
+  return m;
+}
 
-      ax[i] += dx * s1; ay[i] += dy * s1; az[i] += dz * s1;
-      ax[j] -= dx * s2; ay[j] -= dy * s2; az[j] -= dz * s2;
-    }
-  }
-  return [ax, ay, az];
+/** Gravity (via the backend) + extra accelerations at the current state.pos, into acc. */
+function computeAccelerations(
+  state: SimState,
+  massScale: number,
+  acc: Float64Array,
+  extra?: ExtraAccel,
+  forces: ForceBackend = directForces
+) {
+  forces.accelerations(state.pos, scaledMasses(state, massScale), state.n, acc);
+  if (extra) extra(state, acc);
 }
 
 /**
  * Velocity–Verlet (leapfrog) with automatic substepping.
- * - Stable and time-reversible for conservative forces.
+ * - Stable and time-reversible for conservative forces: a negative
+ *   dt*timeScale retraces the trajectory (as do Yoshida, RK4 and Wisdom–Holman).
  * - Substeps ensure each micro-step stays below hMax (default 0.05 day).
  *
  * Notes on velScale:
@@ -95,7 +96,7 @@ function computeAccelerations(
  *   which is less destabilizing than scaling both.
  */
 export function stepLeapfrog(
-  bodies: Body[],
+  state: SimState,
   dt: number,
   timeScale: number,
   massScale: number,
@@ -103,66 +104,288 @@ export function stepLeapfrog(
   _centralSunOnly = false,
   _sunIndex = 0,
   extra?: ExtraAccel,
-  hMax = 0.05  // max substep in days  (~1.2 hours)
+  hMax = 0.05, // max substep in days  (~1.2 hours)
+  forces: ForceBackend = directForces
 ) {
-  let H = Math.max(0, dt * timeScale);      // total step for this frame (days)
-  if (H === 0) return;
+  const H = dt * timeScale;                 // total step for this frame (days, < 0 runs backward)
+  if (!(H !== 0) || !Number.isFinite(H)) return;
 
   // number of substeps to keep each micro-step ≤ hMax
-  const n = Math.max(1, Math.ceil(H / hMax));
+  const n = Math.max(1, Math.ceil(Math.abs(H) / hMax));
   const h = H / n;
   const driftH = h * Math.max(0.0001, velScale); // only affect the drift
 
+  for (let s = 0; s < n; s++) leapfrogSubstep(state, h, driftH, massScale, extra, forces);
+}
+
+/** One kick–drift–kick micro-step of length h (driftH = h * velScale). */
+function leapfrogSubstep(
+  state: SimState,
+  h: number,
+  driftH: number,
+  massScale: number,
+  extra?: ExtraAccel,
+  forces: ForceBackend = directForces
+) {
+  const { pos, vel } = state;
+  const M = 3 * state.n;
+  const acc = scratch(state, "acc", M);
+
+  // a(t), including external/extra accelerations if provided
+  computeAccelerations(state, massScale, acc, extra, forces);
+
+  // KICK (half): v(t+½h) = v(t) + a(t)*½h
+  for (let k = 0; k < M; k++) vel[k] += acc[k] * (0.5 * h);
+
+  // DRIFT: x(t+h) = x(t) + v(t+½h)*h   (apply velScale only to drift)
+  for (let k = 0; k < M; k++) pos[k] += vel[k] * driftH;
+
+  // a(t+h). Velocity-dependent extras (1PN, burns steered along the orbit)
+  // must see v(t+h), not v(t+½h): predict it from gravity's half kick.
+  forces.accelerations(state.pos, scaledMasses(state, massScale), state.n, acc);
+  if (extra) {
+    const vHalf = scratch(state, "lf.vHalf", M);
+    vHalf.set(vel.subarray(0, M));
+    for (let k = 0; k < M; k++) vel[k] += acc[k] * (0.5 * h);
+    extra(state, acc);
+    vel.set(vHalf);
+  }
+
+  // KICK (half): v(t+h) = v(t+½h) + a(t+h)*½h
+  for (let k = 0; k < M; k++) vel[k] += acc[k] * (0.5 * h);
+}
+
+// Yoshida (1990) composition weights: a symmetric product of leapfrog steps
+// with these fractions of h cancels the error terms up to the given order.
+const YOSHIDA4 = (() => {
+  const c = Math.cbrt(2);
+  const w1 = 1 / (2 - c), w0 = -c / (2 - c);
+  return [w1, w0, w1];
+})();
+const YOSHIDA6 = (() => {
+  // "solution A"
+  const w1 = -1.17767998417887, w2 = 0.235573213359357, w3 = 0.784513610477560;
+  const w0 = 1 - 2 * (w1 + w2 + w3);
+  return [w3, w2, w1, w0, w1, w2, w3];
+})();
+
+/**
+ * Yoshida 4th/6th-order symplectic integrator.
+ * Each substep is a composition of 3 (order 4) or 7 (order 6) leapfrog steps,
+ * so phase error grows far more slowly than with plain leapfrog at similar cost
+ * per unit of accuracy. Same substep guard and velScale treatment as leapfrog.
+ */
+export function stepYoshida(
+  state: SimState,
+  dt: number,
+  timeScale: number,
+  massScale: number,
+  velScale: number,
+  _centralSunOnly = false,
+  _sunIndex = 0,
+  extra?: ExtraAccel,
+  order: 4 | 6 = 4,
+  hMax = 0.05,
+  forces: ForceBackend = directForces
+) {
+  const H = dt * timeScale;
+  if (!(H !== 0) || !Number.isFinite(H)) return;
+
+  const n = Math.max(1, Math.ceil(Math.abs(H) / hMax));
+  const h = H / n;
+  const vs = Math.max(0.0001, velScale);
+  const weights = order === 6 ? YOSHIDA6 : YOSHIDA4;
+
   for (let s = 0; s < n; s++) {
-    // a(t)
-    const [ax, ay, az] = computeAccelerations(bodies, massScale);
-    // External/extra accelerations if provided
-    if (extra) {
-      const add = extra(bodies);
-      for (let i = 0; i < bodies.length; i++) {
-        ax[i] += add[i][0];
-        ay[i] += add[i][1];
-        az[i] += add[i][2];
-      }
+    for (const w of weights) leapfrogSubstep(state, w * h, w * h * vs, massScale, extra, forces);
+  }
+}
+
+/**
+ * Wisdom–Holman mixed-variable integrator (democratic heliocentric split).
+ * The Hamiltonian is split into
+ *   - Kepler motion of every body around the central star (solved exactly),
+ *   - body–body interactions (kicks in heliocentric positions),
+ *   - the star's reflex "jump" term,
+ * composed as kick/2 · jump/2 · kepler · jump/2 · kick/2.
+ * Because the dominant solar term is integrated exactly, substeps can be much
+ * longer than for leapfrog (default hMax 0.5 day). Extra accelerations are added
+ * to the kicks. velScale is not applied (keep it at 1 for this integrator).
+ */
+export function stepWisdomHolman(
+  state: SimState,
+  dt: number,
+  timeScale: number,
+  massScale: number,
+  _velScale: number,
+  _centralSunOnly = false,
+  sunIndex = 0,
+  extra?: ExtraAccel,
+  hMax = 0.5,
+  forces: ForceBackend = directForces
+) {
+  const H = dt * timeScale;
+  if (!(H !== 0) || !Number.isFinite(H)) return;
+
+  const N = state.n;
+  const M = 3 * N;
+  const m0 = (state.mass[sunIndex] ?? 0) * massScale;
+  if (m0 <= 0) {
+    // no central star to split around: plain leapfrog is the honest fallback
+    stepLeapfrog(state, dt, timeScale, massScale, 1, false, 0, extra, undefined, forces);
+    return;
+  }
+
+  const n = Math.max(1, Math.ceil(Math.abs(H) / hMax));
+  const h = H / n;
+  const mu = G * m0;
+  const { pos, vel } = state;
+
+  // ---- to democratic heliocentric coordinates ----
+  const m = scaledMasses(state, massScale);
+  const mInt = scratch(state, "wh.mint", N); // interaction masses: the star is in the Kepler part
+  mInt.set(m);
+  mInt[sunIndex] = 0;
+
+  let mtot = 0;
+  let xcx = 0, xcy = 0, xcz = 0, vcx = 0, vcy = 0, vcz = 0;
+  for (let i = 0; i < N; i++) {
+    mtot += m[i];
+    xcx += m[i] * pos[3*i]; xcy += m[i] * pos[3*i+1]; xcz += m[i] * pos[3*i+2];
+    vcx += m[i] * vel[3*i]; vcy += m[i] * vel[3*i+1]; vcz += m[i] * vel[3*i+2];
+  }
+  xcx /= mtot; xcy /= mtot; xcz /= mtot; vcx /= mtot; vcy /= mtot; vcz /= mtot;
+
+  const Q = scratch(state, "wh.q", M);   // heliocentric positions
+  const P = scratch(state, "wh.p", M);   // barycentric velocities
+  const acc = scratch(state, "acc", M);
+  const ext = scratch(state, "wh.extra", M);
+  const s0 = 3 * sunIndex;
+  for (let i = 0; i < N; i++) {
+    Q[3*i] = pos[3*i] - pos[s0]; Q[3*i+1] = pos[3*i+1] - pos[s0+1]; Q[3*i+2] = pos[3*i+2] - pos[s0+2];
+    P[3*i] = vel[3*i] - vcx; P[3*i+1] = vel[3*i+1] - vcy; P[3*i+2] = vel[3*i+2] - vcz;
+  }
+
+  // back to inertial (barycentric-frame) positions/velocities in the state
+  function syncInertial() {
+    let sqx = 0, sqy = 0, sqz = 0, spx = 0, spy = 0, spz = 0;
+    for (let i = 0; i < N; i++) {
+      if (i === sunIndex) continue;
+      sqx += m[i] * Q[3*i]; sqy += m[i] * Q[3*i+1]; sqz += m[i] * Q[3*i+2];
+      spx += m[i] * P[3*i]; spy += m[i] * P[3*i+1]; spz += m[i] * P[3*i+2];
+    }
+    const x0 = xcx - sqx / mtot, y0 = xcy - sqy / mtot, z0 = xcz - sqz / mtot;
+    for (let i = 0; i < N; i++) {
+      if (i === sunIndex) continue;
+      pos[3*i] = Q[3*i] + x0; pos[3*i+1] = Q[3*i+1] + y0; pos[3*i+2] = Q[3*i+2] + z0;
+      vel[3*i] = P[3*i] + vcx; vel[3*i+1] = P[3*i+1] + vcy; vel[3*i+2] = P[3*i+2] + vcz;
     }
+    pos[s0] = x0; pos[s0+1] = y0; pos[s0+2] = z0;
+    vel[s0] = vcx - spx / m0; vel[s0+1] = vcy - spy / m0; vel[s0+2] = vcz - spz / m0;
+  }
 
-    // KICK (half): v(t+½h) = v(t) + a(t)*½h
-    for (let i = 0; i < bodies.length; i++) {
-      bodies[i].velocity[0] += ax[i] * (0.5 * h);
-      bodies[i].velocity[1] += ay[i] * (0.5 * h);
-      bodies[i].velocity[2] += az[i] * (0.5 * h);
+  function kick(tau: number) {
+    // thrust etc. is evaluated at the pre-kick state
+    if (extra) {
+      syncInertial();
+      ext.fill(0);
+      extra(state, ext);
+    }
+    forces.accelerations(Q, mInt, N, acc);
+    for (let i = 0; i < N; i++) {
+      if (i === sunIndex) continue;
+      for (let c = 0; c < 3; c++) P[3*i + c] += (acc[3*i + c] + (extra ? ext[3*i + c] : 0)) * tau;
+    }
+    if (extra) {
+      const f = tau * m0 / mtot;
+      vcx += ext[s0] * f; vcy += ext[s0+1] * f; vcz += ext[s0+2] * f;
     }
+  }
 
-    // DRIFT: x(t+h) = x(t) + v(t+½h)*h   (apply velScale only to drift)
-    for (let i = 0; i < bodies.length; i++) {
-      bodies[i].position[0] += bodies[i].velocity[0] * driftH;
-      bodies[i].position[1] += bodies[i].velocity[1] * driftH;
-      bodies[i].position[2] += bodies[i].velocity[2] * driftH;
+  function jump(tau: number) {
+    let px = 0, py = 0, pz = 0;
+    for (let i = 0; i < N; i++) {
+      if (i === sunIndex) continue;
+      px += m[i] * P[3*i]; py += m[i] * P[3*i+1]; pz += m[i] * P[3*i+2];
+    }
+    const f = tau / m0;
+    for (let i = 0; i < N; i++) {
+      if (i === sunIndex) continue;
+      Q[3*i] += px * f; Q[3*i+1] += py * f; Q[3*i+2] += pz * f;
     }
+  }
 
-    // a(t+h)
-    const [ax2, ay2, az2] = computeAccelerations(bodies, massScale);
-    if (extra) {
-      const add2 = extra(bodies);
-      for (let i = 0; i < bodies.length; i++) {
-        ax2[i] += add2[i][0];
-        ay2[i] += add2[i][1];
-        az2[i] += add2[i][2];
-      }
+  for (let s = 0; s < n; s++) {
+    kick(0.5 * h);
+    jump(0.5 * h);
+    for (let i = 0; i < N; i++) {
+      if (i !== sunIndex) keplerDrift(Q, P, 3 * i, mu, h);
     }
+    jump(0.5 * h);
+    xcx += vcx * h; xcy += vcy * h; xcz += vcz * h;
+    kick(0.5 * h);
+  }
+  syncInertial();
+}
 
-    // KICK (half): v(t+h) = v(t+½h) + a(t+h)*½h
-    for (let i = 0; i < bodies.length; i++) {
-      bodies[i].velocity[0] += ax2[i] * (0.5 * h);
-      bodies[i].velocity[1] += ay2[i] * (0.5 * h);
-      bodies[i].velocity[2] += az2[i] * (0.5 * h);
+/**
+ * Patched two-body ("kepler") propagator: every body moves on its analytic
+ * conic around its primary (μ = G(m_primary + m)), with no other bodies and no
+ * extra accelerations, while the star drifts at constant velocity. Exact for
+ * any step length, so the difference from the n-body integrators is purely
+ * the perturbations. `parents[i]` is the index of body i's primary (a moon's
+ * planet, listed before it); absent or −1 means the star.
+ */
+export function stepKepler(
+  state: SimState,
+  dt: number,
+  timeScale: number,
+  massScale: number,
+  _velScale: number,
+  _centralSunOnly = false,
+  sunIndex = 0,
+  parents?: ArrayLike<number>
+) {
+  const H = dt * timeScale;
+  if (!(H !== 0) || !Number.isFinite(H)) return;
+  const { pos, vel, mass, n } = state;
+
+  // state relative to the primary at the start, propagated, then put back
+  // around the primary's new state (already moved: primaries come first)
+  const old = scratch(state, "kep.old", 6 * n);
+  old.set(pos.subarray(0, 3 * n));
+  old.set(vel.subarray(0, 3 * n), 3 * n);
+  const V = 3 * n;
+  const rel = scratch(state, "kep.rel", 6);
+  const s = 3 * sunIndex;
+  for (let i = 0; i < n; i++) {
+    if (i === sunIndex) continue;
+    const parent = parents?.[i] ?? -1;
+    const q = parent >= 0 && parent !== i ? parent : sunIndex;
+    const o = 3 * q;
+    for (let c = 0; c < 3; c++) {
+      rel[c] = old[3*i + c] - old[o + c];
+      rel[3 + c] = old[V + 3*i + c] - old[V + o + c];
+    }
+    const m0 = (mass[q] ?? 0) * massScale;
+    if (m0 > 0) {
+      const r = rel.subarray(0, 3), v = rel.subarray(3);
+      propagateKepler(r, v, 0, G * (m0 + mass[i] * massScale), H);
+    } else {
+      for (let c = 0; c < 3; c++) rel[c] += rel[3 + c] * H;
+    }
+    for (let c = 0; c < 3; c++) {
+      const base = q === sunIndex ? old[s + c] + old[V + s + c] * H : pos[o + c];
+      pos[3*i + c] = base + rel[c];
+      vel[3*i + c] = (q === sunIndex ? old[V + s + c] : vel[o + c]) + rel[3 + c];
     }
   }
+  for (let c = 0; c < 3; c++) pos[s + c] += vel[s + c] * H;
 }
 
 /** Classic RK4 with the same substep guard for parity/testing. */
 export function stepRK4(
-  bodies: Body[],
+  state: SimState,
   dt: number,
   timeScale: number,
   massScale: number,
@@ -170,73 +393,231 @@ export function stepRK4(
   _centralSunOnly = false,
   _sunIndex = 0,
   extra?: ExtraAccel,
-  hMax = 0.05
+  hMax = 0.05,
+  forces: ForceBackend = directForces
 ) {
-  let H = Math.max(0, dt * timeScale);
-  if (H === 0) return;
-  const n = Math.max(1, Math.ceil(H / hMax));
+  const H = dt * timeScale;
+  if (!(H !== 0) || !Number.isFinite(H)) return;
+  const n = Math.max(1, Math.ceil(Math.abs(H) / hMax));
   const h = H / n;
   const driftH = h * Math.max(0.0001, velScale);
 
-  const N = bodies.length;
+  const M = 3 * state.n;
+  const { pos, vel } = state;
+  const x = scratch(state, "rk4.x", M);
+  const v = scratch(state, "rk4.v", M);
+  const v2 = scratch(state, "rk4.v2", M);
+  const v3 = scratch(state, "rk4.v3", M);
+  const a1 = scratch(state, "rk4.a1", M);
+  const a2 = scratch(state, "rk4.a2", M);
+  const a3 = scratch(state, "rk4.a3", M);
+  const a4 = scratch(state, "rk4.a4", M);
 
-  function accelAt(pos: number[][]): [number, number, number][] {
-    const ax = Array(N).fill(0).map(() => [0,0,0] as [number,number,number]);
-    for (let i = 0; i < N; i++) {
-      for (let j = i + 1; j < N; j++) {
-        const dx = pos[j][0] - pos[i][0];
-        const dy = pos[j][1] - pos[i][1];
-        const dz = pos[j][2] - pos[i][2];
-        const r2 = dx*dx + dy*dy + dz*dz + SOFTENING2;
-        const invR = 1/Math.sqrt(r2);
-        const invR3 = invR / r2;
-        const f = G * invR3;
-        const s1 = f * bodies[j].mass * massScale;
-        const s2 = f * bodies[i].mass * massScale;
-        ax[i][0] += dx*s1; ax[i][1] += dy*s1; ax[i][2] += dz*s1;
-        ax[j][0] -= dx*s2; ax[j][1] -= dy*s2; ax[j][2] -= dz*s2;
-      }
+  // Stage states are written into state.pos/state.vel so the force backend
+  // and the extra hook always see the point being evaluated.
+  for (let s = 0; s < n; s++) {
+    x.set(pos);
+    v.set(vel);
+
+    computeAccelerations(state, massScale, a1, extra, forces);
+
+    for (let k = 0; k < M; k++) {
+      pos[k] = x[k] + 0.5*driftH*v[k];
+      vel[k] = v2[k] = v[k] + 0.5*h*a1[k];
     }
-    if (extra) {
-      const add = extra(bodies);
-      for (let i = 0; i < N; i++) {
-        ax[i][0] += add[i][0]; ax[i][1] += add[i][1]; ax[i][2] += add[i][2];
-      }
+    computeAccelerations(state, massScale, a2, extra, forces);
+
+    for (let k = 0; k < M; k++) {
+      pos[k] = x[k] + 0.5*driftH*v2[k];
+      vel[k] = v3[k] = v[k] + 0.5*h*a2[k];
+    }
+    computeAccelerations(state, massScale, a3, extra, forces);
+
+    for (let k = 0; k < M; k++) {
+      pos[k] = x[k] + driftH*v3[k];
+      vel[k] = v[k] + h*a3[k];
+    }
+    computeAccelerations(state, massScale, a4, extra, forces);
+
+    // vel currently holds v4
+    for (let k = 0; k < M; k++) {
+      pos[k] = x[k] + (driftH/6) * (v[k] + 2*v2[k] + 2*v3[k] + vel[k]);
+      vel[k] = v[k] + (h/6) * (a1[k] + 2*a2[k] + 2*a3[k] + a4[k]);
     }
-    return ax;
   }
+}
 
-  for (let s = 0; s < n; s++) {
-    const x = bodies.map(b => [...b.position] as [number,number,number]);
-    const v = bodies.map(b => [...b.velocity] as [number,number,number]);
+/** Persistent controller state for the adaptive integrator (carried across frames). */
+export type AdaptiveState = {
+  h: number;         // next trial step (days); 0 = pick automatically
+  accepted: number;  // accepted steps since reset
+  rejected: number;  // rejected steps since reset
+  truncated: number; // calls that ran out of steps before covering their span
+};
 
-    const a1 = accelAt(x);
+export function createAdaptiveState(): AdaptiveState {
+  return { h: 0, accepted: 0, rejected: 0, truncated: 0 };
+}
 
-    const x2 = x.map((xi,i)=>[xi[0]+0.5*driftH*v[i][0], xi[1]+0.5*driftH*v[i][1], xi[2]+0.5*driftH*v[i][2]]);
-    const v2 = v.map((vi,i)=>[vi[0]+0.5*h*a1[i][0], vi[1]+0.5*h*a1[i][1], vi[2]+0.5*h*a1[i][2]]);
-    const a2 = accelAt(x2);
+// Dormand–Prince 5(4) tableau
+const DP_A = [
+  [],
+  [1/5],
+  [3/40, 9/40],
+  [44/45, -56/15, 32/9],
+  [19372/6561, -25360/2187, 64448/6561, -212/729],
+  [9017/3168, -355/33, 46732/5247, 49/176, -5103/18656],
+  [35/384, 0, 500/1113, 125/192, -2187/6784, 11/84],
+];
+// 5th-order weights are the last row of A (FSAL); E = b5 - b4 gives the error estimate
+const DP_E = [71/57600, 0, -71/16695, 71/1920, -17253/339200, 22/525, -1/40];
+const DP_KEYS = ["dp.k1", "dp.k2", "dp.k3", "dp.k4", "dp.k5", "dp.k6", "dp.k7"];
 
-    const x3 = x.map((xi,i)=>[xi[0]+0.5*driftH*v2[i][0], xi[1]+0.5*driftH*v2[i][1], xi[2]+0.5*driftH*v2[i][2]]);
-    const v3 = v.map((vi,i)=>[vi[0]+0.5*h*a2[i][0], vi[1]+0.5*h*a2[i][1], vi[2]+0.5*h*a2[i][2]]);
-    const a3 = accelAt(x3);
+/**
+ * Index of each body's primary in `prim`: the massive body with the largest
+ * m / r³, i.e. the one whose Hill sphere it sits in (a moon's planet, a
+ * payload's Earth, a planet's Sun); −1 when there is none. Only the M massive
+ * bodies (collected in `src`) are candidates, so this is O(N·M).
+ */
+function findPrimaries(pos: Float64Array, m: Float64Array, n: number, prim: Float64Array, src: Float64Array) {
+  let ns = 0;
+  for (let j = 0; j < n; j++) if (m[j] > 0) src[ns++] = j;
+  for (let i = 0; i < n; i++) {
+    let best = -1, bestTide = 0;
+    for (let a = 0; a < ns; a++) {
+      const j = src[a];
+      if (j === i) continue;
+      const r2 = (pos[3*i] - pos[3*j]) ** 2 + (pos[3*i+1] - pos[3*j+1]) ** 2 + (pos[3*i+2] - pos[3*j+2]) ** 2;
+      const tide = m[j] / (r2 * Math.sqrt(r2));
+      if (tide > bestTide) { bestTide = tide; best = j; }
+    }
+    prim[i] = best;
+  }
+}
 
-    const x4 = x.map((xi,i)=>[xi[0]+driftH*v3[i][0], xi[1]+driftH*v3[i][1], xi[2]+driftH*v3[i][2]]);
-    const v4 = v.map((vi,i)=>[vi[0]+h*a3[i][0], vi[1]+h*a3[i][1], vi[2]+h*a3[i][2]]);
-    const a4 = accelAt(x4);
+/**
+ * Dormand–Prince 5(4) with embedded error control.
+ * - Advances dt*timeScale days using as many adaptive steps as needed, up to
+ *   `maxSteps`; returns the days actually covered (short of the span only
+ *   when the budget ran out, counted in `ctrl.truncated`).
+ * - The local error of each step is measured per body against
+ *   tol * (|x| or |v| relative to its primary), so a moon or a GEO payload is
+ *   held to its own orbit's size, not its planet's heliocentric one.
+ * - `ctrl` persists the proposed step size and accepted/rejected counters.
+ * - Forward only; `advance` in lib/engine runs it backward by reversing velocities.
+ */
+export function stepDopri(
+  state: SimState,
+  dt: number,
+  timeScale: number,
+  massScale: number,
+  velScale: number,
+  _centralSunOnly = false,
+  _sunIndex = 0,
+  extra?: ExtraAccel,
+  ctrl: AdaptiveState = createAdaptiveState(),
+  tol = 1e-10,
+  hMax = 50,        // never take steps longer than this (days)
+  maxSteps = 20000, // per call, so a bad tolerance can't freeze the frame
+  forces: ForceBackend = directForces
+): number {
+  const H = Math.max(0, dt * timeScale);
+  if (!(H > 0) || !Number.isFinite(H)) return 0;
+
+  const N = state.n;
+  const V = 3 * N; // offset of the velocity block in y = [x..., v...]
+  const M = 2 * V;
+  const vs = Math.max(0.0001, velScale);
+  const { pos, vel } = state;
+
+  const y = scratch(state, "dp.y", M);
+  const y5 = scratch(state, "dp.y5", M);
+  const tmp = scratch(state, "dp.tmp", M);
+  const acc = scratch(state, "acc", V);
+  const prim = scratch(state, "dp.prim", N);
+  const src = scratch(state, "dp.src", N);
+  const k = DP_KEYS.map(key => scratch(state, key, M));
+  const m = scratch(state, "dp.m", N);
+  m.set(scaledMasses(state, massScale));
+  y.set(pos);
+  y.set(vel, V);
+  // primaries don't change within one call's span (a frame or a collision interval)
+  findPrimaries(pos, m, N, prim, src);
+
+  // dy/dt = [velScale * v, a(x)]; the stage is loaded into the state first
+  function deriv(yy: Float64Array, out: Float64Array) {
+    pos.set(yy.subarray(0, V));
+    vel.set(yy.subarray(V));
+    computeAccelerations(state, massScale, acc, extra, forces);
+    for (let q = 0; q < V; q++) out[q] = vs * yy[V + q];
+    out.set(acc, V);
+  }
+
+  // Initial guess: a small fraction of the frame, refined by the controller.
+  let h = ctrl.h > 0 ? ctrl.h : Math.min(H, 0.01);
+  let t = 0;
+  let steps = 0;
+  let haveK1 = false;
+
+  while (t < H && steps < maxSteps) {
+    steps++;
+    const last = t + h >= H;
+    const hs = last ? H - t : h;
 
+    if (!haveK1) deriv(y, k[0]);
+    for (let s = 1; s < 7; s++) {
+      const a = DP_A[s];
+      for (let q = 0; q < M; q++) {
+        let sum = 0;
+        for (let r = 0; r < s; r++) sum += a[r] * k[r][q];
+        tmp[q] = y[q] + hs * sum;
+      }
+      if (s === 6) y5.set(tmp);
+      deriv(tmp, k[s]);
+    }
+
+    // error norm: worst body, position and velocity measured separately,
+    // each against the body's state relative to its primary
+    let err = 0;
     for (let i = 0; i < N; i++) {
-      bodies[i].position = [
-        x[i][0] + (driftH/6) * (v[i][0] + 2*v2[i][0] + 2*v3[i][0] + v4[i][0]),
-        x[i][1] + (driftH/6) * (v[i][1] + 2*v2[i][1] + 2*v3[i][1] + v4[i][1]),
-        x[i][2] + (driftH/6) * (v[i][2] + 2*v2[i][2] + 2*v3[i][2] + v4[i][2]),
-      ];
-      bodies[i].velocity = [
-        v[i][0] + (h/6) * (a1[i][0] + 2*a2[i][0] + 2*a3[i][0] + a4[i][0]),
-        v[i][1] + (h/6) * (a1[i][1] + 2*a2[i][1] + 2*a3[i][1] + a4[i][1]),
-        v[i][2] + (h/6) * (a1[i][2] + 2*a2[i][2] + 2*a3[i][2] + a4[i][2]),
-      ];
+      const p = prim[i];
+      let ex = 0, ev = 0, nx = 0, nv = 0;
+      for (let c = 0; c < 3; c++) {
+        const px = 3*i + c, pv = V + 3*i + c;
+        const ox = p >= 0 ? 3*p + c : -1, ov = p >= 0 ? V + 3*p + c : -1;
+        let dx = 0, dv = 0;
+        for (let q = 0; q < 7; q++) { dx += DP_E[q] * k[q][px]; dv += DP_E[q] * k[q][pv]; }
+        ex += (hs*dx) ** 2; ev += (hs*dv) ** 2;
+        nx += Math.max((y[px] - (ox >= 0 ? y[ox] : 0)) ** 2, (y5[px] - (ox >= 0 ? y5[ox] : 0)) ** 2);
+        nv += Math.max((y[pv] - (ov >= 0 ? y[ov] : 0)) ** 2, (y5[pv] - (ov >= 0 ? y5[ov] : 0)) ** 2);
+      }
+      const sx = tol * Math.max(Math.sqrt(nx), 1e-12);
+      const sv = tol * Math.max(Math.sqrt(nv), 1e-12);
+      err = Math.max(err, Math.sqrt(ex) / sx, Math.sqrt(ev) / sv);
+    }
+
+    const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(err, -0.2)));
+
+    if (err <= 1) {
+      y.set(y5);
+      t = last ? H : t + hs;
+      ctrl.accepted++;
+      // FSAL: k7 at y5 is k1 of the next step
+      k[0].set(k[6]);
+      haveK1 = true;
+      // a truncated final step says nothing about the next natural step
+      if (!last) h = Math.min(hMax, hs * factor);
+    } else {
+      ctrl.rejected++;
+      h = Math.max(1e-9, hs * factor);
     }
   }
+  ctrl.h = h;
+  if (t < H) ctrl.truncated++;
+
+  pos.set(y.subarray(0, V));
+  vel.set(y.subarray(V));
+  return t;
 }
 
 /** Unit helper if you want to convert DV sliders, etc. */
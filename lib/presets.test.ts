@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { makeDefaultSystem } from "~/lib/engine";
+import { makePreset, PRESET_IDS } from "~/lib/presets";
+import { J2000_JD } from "~/lib/time";
+
+test("moons come only with the preset that asks for them", () => {
+  for (const id of PRESET_IDS) {
+    const moons = makePreset(id, J2000_JD).bodies.filter(b => b.parent).map(b => b.id);
+    if (id === "solar-system-moons") assert.deepEqual(moons, ["moon", "io", "europa", "ganymede", "callisto", "titan"]);
+    else assert.deepEqual(moons, [], id);
+  }
+  assert.equal(makeDefaultSystem().bodies.some(b => b.parent), false);
+});
+
+test("every preset builds finite bodies with unique ids", () => {
+  for (const id of PRESET_IDS) {
+    const { bodies } = makePreset(id, J2000_JD);
+    assert.ok(bodies.length >= 2, id);
+    assert.equal(new Set(bodies.map(b => b.id)).size, bodies.length, `${id}: duplicate ids`);
+    for (const b of bodies) assert.ok([...b.position, ...b.velocity, b.mass].every(Number.isFinite), `${id}/${b.id}`);
+  }
+});
@@ -0,0 +1,229 @@
+// lib/presets.ts
+// Built-in scenarios for the preset picker (and the CLI's --scenario names).
+// Each one is a full Scenario, loaded the same way as an imported file.
+import { AU_KM, G, makeCircularBodies, makeEphemerisBodies, type BodyDisplay, type BodyInit } from "~/lib/bodies";
+import { seedCircularVelocities, zeroSystemMomentum } from "~/lib/physics";
+import { SCENARIO_VERSION, type Scenario } from "~/lib/scenario";
+
+export type PresetId =
+  | "solar-system"
+  | "solar-system-moons"
+  | "circular"
+  | "inner"
+  | "outer"
+  | "figure-eight"
+  | "pythagorean"
+  | "circumbinary"
+  | "trojans";
+
+type PresetSpec = {
+  label: string;
+  description: string;
+  make: (epochJD: number) => Omit<Scenario, "version" | "name">;
+};
+
+type Vec3 = [number, number, number];
+
+const DEG = Math.PI / 180;
+const RSUN_AU = 695700 / AU_KM;
+
+/** Trail lengths suited to each planet's speed; the giants' labels sit outside their spheres. */
+const SOLAR_DISPLAY: Record<string, Partial<BodyDisplay>> = {
+  sun: { trailLen: 1200 },
+  mercury: { trailLen: 1200 },
+  venus: { trailLen: 1500 },
+  earth: { trailLen: 2000 },
+  mars: { trailLen: 2000 },
+  jupiter: { trailLen: 1500, labelSize: 0.08 },
+  saturn: { trailLen: 1200, labelSize: 0.08 },
+  uranus: { trailLen: 1000 },
+  neptune: { trailLen: 1000 },
+};
+
+const trails = (lens: Record<string, number>): Record<string, Partial<BodyDisplay>> =>
+  Object.fromEntries(Object.entries(lens).map(([id, trailLen]) => [id, { trailLen }]));
+
+/** The Sun and planets at `epochJD` (with `moons`, theirs too), keeping only the planets in `keep`. */
+function ephemerisSubset(epochJD: number, keep?: string[], moons = false): BodyInit[] {
+  const all = makeEphemerisBodies(epochJD, moons);
+  const bodies = keep
+    ? all.filter(b => b.id === "sun" || keep.includes(b.id) || (b.parent !== undefined && keep.includes(b.parent)))
+    : all;
+  zeroSystemMomentum(bodies);
+  return bodies;
+}
+
+/**
+ * Bodies given in N-body units (G = 1) converted to AU, days and Msun, with
+ * the unit of length `L` AU and the unit of mass `M` Msun.
+ */
+function fromNBodyUnits(bodies: BodyInit[], L: number, M: number): BodyInit[] {
+  const v = L / Math.sqrt(L ** 3 / (G * M)); // AU/day per unit velocity
+  return bodies.map(b => ({
+    ...b,
+    mass: b.mass * M,
+    position: b.position.map(x => x * L) as Vec3,
+    velocity: b.velocity.map(x => x * v) as Vec3,
+  }));
+}
+
+function star(id: string, name: string, color: string, mass: number, position: Vec3, velocity: Vec3, radius: number): BodyInit {
+  return { id, name, color, mass, position, velocity, radius };
+}
+
+/** Chenciner & Montgomery (2000): three equal masses chasing each other round one figure-eight. */
+function figureEight(): BodyInit[] {
+  const x: Vec3 = [0.97000436, -0.24308753, 0];
+  const v: Vec3 = [-0.93240737, -0.86473146, 0];
+  return fromNBodyUnits([
+    star("star-a", "Star A", "#fbbf24", 1, [x[0], x[1], 0], [-v[0] / 2, -v[1] / 2, 0], 0.012),
+    star("star-b", "Star B", "#60a5fa", 1, [-x[0], -x[1], 0], [-v[0] / 2, -v[1] / 2, 0], 0.012),
+    star("star-c", "Star C", "#f87171", 1, [0, 0, 0], v, 0.012),
+  ], 1, 1);
+}
+
+/** Burrau's problem: masses 3, 4, 5 at rest on a 3-4-5 triangle; a tangle of close passes ends in an ejection. */
+function pythagorean(): BodyInit[] {
+  return fromNBodyUnits([
+    star("star-3", "Star 3", "#f87171", 3, [1, 3, 0], [0, 0, 0], 0.012),
+    star("star-4", "Star 4", "#4ade80", 4, [-2, -1, 0], [0, 0, 0], 0.013),
+    star("star-5", "Star 5", "#60a5fa", 5, [1, -1, 0], [0, 0, 0], 0.014),
+  ], 1, 1);
+}
+
+/**
+ * Kepler-16: a K and an M dwarf on a 41-day eccentric orbit, circled by a
+ * Saturn-mass planet every 229 days (Doyle et al. 2011), all coplanar.
+ */
+function circumbinary(): BodyInit[] {
+  const mA = 0.6897, mB = 0.20255, mP = 3.18e-4;
+  const aBin = 0.22431, eBin = 0.15944, aP = 0.7048;
+  // binary starts at periapsis on x, split about its barycenter
+  const rp = aBin * (1 - eBin);
+  const vp = Math.sqrt(G * (mA + mB) * (1 + eBin) / rp);
+  const fA = mB / (mA + mB), fB = mA / (mA + mB);
+  const vP = Math.sqrt(G * (mA + mB + mP) / aP);
+  const bodies: BodyInit[] = [
+    { ...star("star-a", "Kepler-16 A", "#fb923c", mA, [-fA * rp, 0, 0], [0, -fA * vp, 0], 0.012), physRadius: 0.6489 * RSUN_AU },
+    { ...star("star-b", "Kepler-16 B", "#ef4444", mB, [fB * rp, 0, 0], [0, fB * vp, 0], 0.007), physRadius: 0.2262 * RSUN_AU },
+    { id: "kepler-16b", name: "Kepler-16b", color: "#fde68a", mass: mP, position: [0, aP, 0], velocity: [-vP, 0, 0], radius: 0.006 },
+  ];
+  zeroSystemMomentum(bodies);
+  return bodies;
+}
+
+/**
+ * Sun and Jupiter on a circular orbit with massless bodies at and around its
+ * L4 and L5 points: the farther from the point, the wider the tadpole they trace.
+ */
+function trojans(): BodyInit[] {
+  const all = makeCircularBodies();
+  const sun = all.find(b => b.id === "sun")!;
+  const jup = all.find(b => b.id === "jupiter")!;
+  const a = 5.2026, M = sun.mass + jup.mass;
+  const n = Math.sqrt(G * M / a ** 3);
+  const fs = jup.mass / M, fj = sun.mass / M;
+  // rigid rotation about the barycenter at the origin
+  const at = (x: number, y: number) => ({ position: [x, y, 0] as Vec3, velocity: [-n * y, n * x, 0] as Vec3 });
+  const bodies: BodyInit[] = [
+    { ...sun, ...at(-fs * a, 0) },
+    { ...jup, ...at(fj * a, 0) },
+  ];
+  for (const [point, sign, color] of [["L4", 1, "#4ade80"], ["L5", -1, "#38bdf8"]] as const) {
+    for (const offset of [0, 6, 15]) {
+      const th = sign * (60 + offset) * DEG;
+      bodies.push({
+        id: `${point.toLowerCase()}-${offset}`,
+        name: offset ? `${point} +${offset}°` : point,
+        color,
+        mass: 0,
+        radius: 0.004,
+        ...at(-fs * a + a * Math.cos(th), a * Math.sin(th)),
+      });
+    }
+  }
+  return bodies;
+}
+
+export const PRESETS: Record<PresetId, PresetSpec> = {
+  "solar-system": {
+    label: "Solar System",
+    description: "Sun and planets where they are on the current date (JPL mean elements).",
+    make: epochJD => ({ epochJD, bodies: ephemerisSubset(epochJD), display: SOLAR_DISPLAY }),
+  },
+  "solar-system-moons": {
+    label: "Solar System with moons",
+    description: "Sun, planets and major moons on the current date. Io circles Jupiter in 1.8 days: Wisdom–Holman resolves the moons poorly and Dormand–Prince runs several times slower.",
+    make: epochJD => ({ epochJD, bodies: ephemerisSubset(epochJD, undefined, true), display: SOLAR_DISPLAY }),
+  },
+  circular: {
+    label: "Solar System (circular)",
+    description: "The planets on circular coplanar orbits, all starting in a line.",
+    make: () => {
+      const bodies = makeCircularBodies();
+      seedCircularVelocities(bodies, "sun", false);
+      zeroSystemMomentum(bodies);
+      return { bodies, display: SOLAR_DISPLAY };
+    },
+  },
+  inner: {
+    label: "Inner planets",
+    description: "Sun, Mercury, Venus, Earth and Mars on the current date.",
+    make: epochJD => ({ epochJD, bodies: ephemerisSubset(epochJD, ["mercury", "venus", "earth", "mars"]), display: SOLAR_DISPLAY }),
+  },
+  outer: {
+    label: "Outer planets",
+    description: "Sun, Jupiter, Saturn, Uranus and Neptune on the current date.",
+    make: epochJD => ({ epochJD, bodies: ephemerisSubset(epochJD, ["jupiter", "saturn", "uranus", "neptune"]), display: SOLAR_DISPLAY }),
+  },
+  "figure-eight": {
+    label: "Figure-eight",
+    description: "Three 1 Msun stars sharing one figure-eight orbit (Chenciner–Montgomery), period ≈ 368 days.",
+    make: () => ({
+      bodies: figureEight(),
+      settings: { integrator: "dopri", tolerance: 1e-12, collisions: "off" },
+      display: trails({ "star-a": 1500, "star-b": 1500, "star-c": 1500 }),
+    }),
+  },
+  pythagorean: {
+    label: "Pythagorean three-body",
+    description: "Stars of 3, 4 and 5 Msun released at rest on a 3-4-5 triangle (AU); after ~10 years of close passes one is thrown out.",
+    make: () => ({
+      bodies: pythagorean(),
+      settings: { integrator: "dopri", tolerance: 1e-12, collisions: "off" },
+      display: trails({ "star-3": 3000, "star-4": 3000, "star-5": 3000 }),
+    }),
+  },
+  circumbinary: {
+    label: "Circumbinary planet",
+    description: "Kepler-16: a Saturn-mass planet on a 229-day orbit around a 41-day binary star.",
+    make: () => ({
+      bodies: circumbinary(),
+      settings: { integrator: "dopri", tolerance: 1e-11, collisions: "off" },
+      display: trails({ "star-a": 400, "star-b": 400, "kepler-16b": 2000 }),
+    }),
+  },
+  trojans: {
+    label: "Sun–Jupiter Trojans",
+    description: "Jupiter on a circular orbit with test bodies at L4 and L5, and 6° and 15° farther from Jupiter. Add a swarm under Small bodies.",
+    make: () => ({
+      bodies: trojans(),
+      display: {
+        ...SOLAR_DISPLAY,
+        ...trails({ "l4-0": 4000, "l4-6": 4000, "l4-15": 4000, "l5-0": 4000, "l5-6": 4000, "l5-15": 4000 }),
+      },
+    }),
+  },
+};
+
+export const PRESET_IDS = Object.keys(PRESETS) as PresetId[];
+
+export function isPresetId(id: string): id is PresetId {
+  return id in PRESETS;
+}
+
+/** Fresh scenario for preset `id`; `epochJD` places the planets of the ephemeris-based ones. */
+export function makePreset(id: PresetId, epochJD: number): Scenario {
+  const spec = PRESETS[id];
+  return { version: SCENARIO_VERSION, name: spec.label, ...spec.make(epochJD) };
+}
@@ -0,0 +1,146 @@
+// lib/relativity.ts
+// First post-Newtonian correction from the Sun and a perihelion-precession
+// measurement to check it against the analytic rate.
+import { AU_KM, G, makeCircularBodies, type BodyInit } from "~/lib/bodies";
+import type { ExtraAccel } from "~/lib/physics";
+import type { SimState } from "~/lib/simstate";
+
+export const C_AU_PER_DAY = 299792.458 * 86400 / AU_KM; // ≈ 173.14
+const C2 = C_AU_PER_DAY * C_AU_PER_DAY;
+
+const ARCSEC = Math.PI / (180 * 3600);
+const DAYS_PER_CENTURY = 36525;
+
+/**
+ * 1PN (Schwarzschild, test-particle) acceleration from the Sun on every other body:
+ *   a = μ/(c² r³) [ (4μ/r − v²) r + 4 (r·v) v ],  r, v heliocentric, μ = G M☉.
+ * Gives the classic 6πμ / (c² a (1−e²)) perihelion advance per orbit.
+ * The tiny reaction on the Sun is neglected.
+ */
+export function grAccel(sunIndex: number, massScale: number): ExtraAccel {
+  return (state, acc) => {
+    const { pos, vel, mass, n } = state;
+    const mu = G * mass[sunIndex] * massScale;
+    if (!(mu > 0)) return;
+    const s = 3 * sunIndex;
+    for (let i = 0; i < n; i++) {
+      if (i === sunIndex) continue;
+      const rx = pos[3*i] - pos[s], ry = pos[3*i+1] - pos[s+1], rz = pos[3*i+2] - pos[s+2];
+      const vx = vel[3*i] - vel[s], vy = vel[3*i+1] - vel[s+1], vz = vel[3*i+2] - vel[s+2];
+      const r2 = rx*rx + ry*ry + rz*rz;
+      if (r2 === 0) continue;
+      const r = Math.sqrt(r2);
+      const v2 = vx*vx + vy*vy + vz*vz;
+      const rv = rx*vx + ry*vy + rz*vz;
+      const f = mu / (C2 * r2 * r);
+      const A = f * (4 * mu / r - v2), B = f * 4 * rv;
+      acc[3*i] += A * rx + B * vx;
+      acc[3*i+1] += A * ry + B * vy;
+      acc[3*i+2] += A * rz + B * vz;
+    }
+  };
+}
+
+/**
+ * Osculating longitude of perihelion ϖ (direction of the eccentricity vector,
+ * projected on the ecliptic plane) plus a and e of body i around the primary.
+ */
+export function perihelionLongitude(
+  state: SimState,
+  i: number,
+  primary: number,
+  mu: number
+): { varpi: number; a: number; e: number } {
+  const { pos, vel } = state;
+  const rx = pos[3*i] - pos[3*primary], ry = pos[3*i+1] - pos[3*primary+1], rz = pos[3*i+2] - pos[3*primary+2];
+  const vx = vel[3*i] - vel[3*primary], vy = vel[3*i+1] - vel[3*primary+1], vz = vel[3*i+2] - vel[3*primary+2];
+  const r = Math.hypot(rx, ry, rz);
+  const v2 = vx*vx + vy*vy + vz*vz;
+  const rv = rx*vx + ry*vy + rz*vz;
+  const k = v2 - mu / r;
+  const ex = (k * rx - rv * vx) / mu, ey = (k * ry - rv * vy) / mu, ez = (k * rz - rv * vz) / mu;
+  return {
+    varpi: Math.atan2(ey, ex),
+    a: 1 / (2 / r - v2 / mu),
+    e: Math.hypot(ex, ey, ez),
+  };
+}
+
+/** Analytic GR perihelion advance, rad/day. */
+export function analyticPrecessionRate(mu: number, a: number, e: number): number {
+  if (!(a > 0) || !(e < 1)) return 0;
+  const perOrbit = 6 * Math.PI * mu / (C2 * a * (1 - e * e));
+  const period = 2 * Math.PI * Math.sqrt(a * a * a / mu);
+  return perOrbit / period;
+}
+
+/**
+ * Running least-squares fit of ϖ(t). ϖ is unwrapped so the slope survives
+ * the ±π seam; sums are kept centred so days-long spans don't lose precision.
+ */
+export type PrecessionFit = {
+  n: number;
+  meanT: number;
+  meanW: number;
+  ctt: number;          // Σ (t − t̄)²
+  ctw: number;          // Σ (t − t̄)(ϖ − ϖ̄)
+  t0: number;           // first sample
+  t1: number;           // last sample
+  last: number;         // last unwrapped ϖ
+  a: number;            // latest osculating a, e (for the analytic rate)
+  e: number;
+};
+
+export function createPrecessionFit(): PrecessionFit {
+  return { n: 0, meanT: 0, meanW: 0, ctt: 0, ctw: 0, t0: 0, t1: 0, last: 0, a: 0, e: 0 };
+}
+
+export function addPrecessionSample(fit: PrecessionFit, t: number, varpi: number, a: number, e: number) {
+  let w = varpi;
+  if (fit.n > 0) {
+    // unwrap: choose the branch nearest the previous sample
+    w = fit.last + Math.atan2(Math.sin(varpi - fit.last), Math.cos(varpi - fit.last));
+  } else {
+    fit.t0 = t;
+  }
+  fit.n++;
+  const dt = t - fit.meanT;
+  fit.meanT += dt / fit.n;
+  const dw = w - fit.meanW;
+  fit.meanW += dw / fit.n;
+  fit.ctt += dt * (t - fit.meanT);
+  fit.ctw += dt * (w - fit.meanW);
+  fit.t1 = t;
+  fit.last = w;
+  fit.a = a;
+  fit.e = e;
+}
+
+/** Fitted dϖ/dt in rad/day (0 until there is a span to fit). */
+export function fittedPrecessionRate(fit: PrecessionFit): number {
+  return fit.n > 2 && fit.ctt > 0 ? fit.ctw / fit.ctt : 0;
+}
+
+/** Per-century rates in arcseconds, the unit the 43″ figure is quoted in. */
+export const toArcsecPerCentury = (radPerDay: number) => radPerDay * DAYS_PER_CENTURY / ARCSEC;
+
+/**
+ * Sun + Mercury alone on Mercury's real orbit (a = 0.387 AU, e = 0.2056), so
+ * the measured precession is the relativistic part only (no planetary terms).
+ * Starts at perihelion on +x, in the barycentric frame.
+ */
+export function makePrecessionTestBodies(): BodyInit[] {
+  const all = makeCircularBodies();
+  const sun = all.find(b => b.id === "sun")!;
+  const merc = all.find(b => b.id === "mercury")!;
+  const a = 0.387098, e = 0.205630;
+  const M = sun.mass + merc.mass;
+  const rp = a * (1 - e);
+  const vp = Math.sqrt(G * M * (1 + e) / rp);
+  const fs = merc.mass / M, fm = sun.mass / M;
+  sun.position = [-fs * rp, 0, 0];
+  sun.velocity = [0, -fs * vp, 0];
+  merc.position = [fm * rp, 0, 0];
+  merc.velocity = [0, fm * vp, 0];
+  return [sun, merc];
+}
@@ -0,0 +1,119 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { makeScenario, parseScenario, parseScenarioText, SCENARIO_VERSION, type Scenario } from "~/lib/scenario";
+
+const sun = { id: "sun", mass: 1, position: [0, 0, 0], velocity: [0, 0, 0] };
+const earth = { id: "earth", name: "Earth", mass: 3e-6, position: [1, 0, 0], velocity: [0, 0.0172, 0] };
+const moon = { ...earth, id: "moon", name: "Moon", mass: 3.7e-8, parent: "earth" };
+
+function ok(json: unknown): Scenario {
+  const r = parseScenario(json);
+  assert.ok("scenario" in r, "errors" in r ? r.errors.join("\n") : "");
+  return r.scenario;
+}
+
+function errors(json: unknown): string[] {
+  const r = parseScenario(json);
+  assert.ok("errors" in r, "expected the file to be rejected");
+  return r.errors;
+}
+
+test("parses a minimal file, filling in names, visuals and burn ids", () => {
+  const s = ok({
+    version: SCENARIO_VERSION,
+    bodies: [sun, earth],
+    burns: [{ target: "earth", t: 10, duration: 0, dv: 100, frame: "prograde", ref: "sun" }],
+  });
+  assert.deepEqual(s.bodies.map(b => b.name), ["sun", "Earth"]);
+  assert.equal(s.bodies[0].radius, 0.01);
+  assert.equal(s.bodies[0].color, "#e5e7eb");
+  assert.equal(s.burns?.[0].id, "burn-1");
+  assert.equal(s.display, undefined);
+});
+
+test("reports each problem on its own line, with the body id in the path", () => {
+  const errs = errors({
+    version: SCENARIO_VERSION,
+    bodies: [sun, { ...earth, position: [1, "x", 0], mass: -1 }, { ...earth, parent: "moon" }],
+    settings: { integrator: "euler" },
+    burns: [{ target: "pluto", t: 0, duration: 0, dv: 1, frame: "prograde", ref: "sun" }],
+  });
+  const has = (prefix: string) => assert.ok(errs.some(e => e.startsWith(prefix)), `${prefix} in\n${errs.join("\n")}`);
+  has("bodies[1] (earth).position[1]: ");
+  has("bodies[1] (earth).mass: ");
+  has("settings.integrator: ");
+  // the cross-reference checks run once the shapes are right
+  const refs = errors({
+    version: SCENARIO_VERSION,
+    bodies: [sun, earth, { ...earth }, { ...earth, id: "ship", parent: "moon" }],
+    burns: [{ target: "pluto", t: 0, duration: 0, dv: 1, frame: "prograde", ref: "sun" }],
+  });
+  assert.deepEqual(refs, [
+    'bodies[2] (earth).id: duplicate id "earth"',
+    'bodies[3] (ship).parent: no other body with id "moon"',
+    'burns[0].target: no body with id "pluto"',
+  ]);
+});
+
+test("rejects a parent listed after its body", () => {
+  assert.deepEqual(errors({ version: SCENARIO_VERSION, bodies: [sun, moon, earth] }), [
+    'bodies[1] (moon).parent: "earth" is listed after this body; list each body after its parent',
+  ]);
+  ok({ version: SCENARIO_VERSION, bodies: [sun, { ...earth, parent: "sun" }, moon] });
+});
+
+test("rejects parents that loop, naming the loop", () => {
+  assert.deepEqual(errors({
+    version: SCENARIO_VERSION,
+    bodies: [sun, { ...earth, parent: "moon" }, moon, { ...moon, id: "ship", parent: "moon" }],
+  }), [
+    "bodies[1] (earth).parent: parents loop back to this body: earth → moon → earth",
+    "bodies[2] (moon).parent: parents loop back to this body: moon → earth → moon",
+  ]);
+});
+
+test("rejects what isn't a scenario object with a hint, without throwing", () => {
+  assert.match(errors([sun, earth])[0], /got an array; wrap a body list/);
+  assert.deepEqual(errors({ version: 99, bodies: [] }), [
+    `version: this build reads version ${SCENARIO_VERSION} scenarios, the file is version 99`,
+  ]);
+  for (const json of [null, 42, "scenario", {}]) assert.ok(errors(json).length > 0, JSON.stringify(json));
+  assert.ok(errors({ version: SCENARIO_VERSION, bodies: [sun], extra: 1 })[0].startsWith("(file): "));
+});
+
+test("merges older files' trailLen into display, display winning", () => {
+  const s = ok({
+    version: SCENARIO_VERSION,
+    bodies: [sun, earth],
+    trailLen: { sun: 100, earth: 200 },
+    display: { earth: { trailLen: 300, label: false } },
+  });
+  assert.deepEqual(s.display, { sun: { trailLen: 100 }, earth: { trailLen: 300, label: false } });
+});
+
+test("parseScenarioText reports JSON syntax errors as errors", () => {
+  const r = parseScenarioText("{ \"version\": 1, ");
+  assert.ok("errors" in r && r.errors[0].startsWith("not valid JSON: "));
+});
+
+test("makeScenario rebases time and drops what refers to missing bodies, and parses back", () => {
+  const s = makeScenario({
+    t: 100,
+    epochJD: 2451545,
+    bodies: ok({ version: SCENARIO_VERSION, bodies: [sun, earth] }).bodies,
+    settings: { integrator: "wh" },
+    burns: [
+      { id: "past", target: "earth", t: 50, duration: 10, dv: 1, frame: "prograde", ref: "sun" },
+      { id: "firing", target: "earth", t: 95, duration: 10, dv: 1, frame: "prograde", ref: "sun" },
+      { id: "gone", target: "moon", t: 150, duration: 0, dv: 1, frame: "prograde", ref: "earth" },
+    ],
+    display: {
+      earth: { trailLen: 10, label: true, labelSize: 0.05, color: null, focusable: true },
+      moon: { trailLen: 10, label: true, labelSize: 0.05, color: null, focusable: true },
+    },
+  });
+  assert.equal(s.epochJD, 2451645);
+  assert.deepEqual(s.burns?.map(b => [b.id, b.t]), [["firing", -5]]);
+  assert.deepEqual(Object.keys(s.display ?? {}), ["earth"]);
+  assert.deepEqual(ok(JSON.parse(JSON.stringify(s))), s);
+});
@@ -0,0 +1,219 @@
+// lib/scenario.ts
+// Versioned JSON scenario files: the bodies with their visuals and initial
+// state, plus epoch, engine settings, burns and per-body display settings.
+// Shared by the Import/Export buttons and the headless CLI; validated with zod
+// so a bad file fails with a list of what is wrong and where.
+import { z } from "zod";
+import type { BodyDisplay, BodyInit } from "~/lib/bodies";
+import type { EngineSettings } from "~/lib/engine";
+import type { Burn } from "~/lib/maneuvers";
+
+/** Bump when the format changes incompatibly (and teach `parseScenario` the old one). */
+export const SCENARIO_VERSION = 1;
+
+const finite = z.number().finite();
+const vec3 = z.tuple([finite, finite, finite]);
+
+const bodySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),                        // defaults to the id
+  color: z.string().default("#e5e7eb"),
+  radius: finite.positive().default(0.01),            // visual, scene units
+  parent: z.string().optional(),
+  mass: finite.nonnegative(),                         // Msun
+  position: vec3,                                     // AU, barycentric
+  velocity: vec3,                                     // AU/day
+  physRadius: finite.nonnegative().optional(),        // AU
+  texture: z.object({
+    map: z.string().optional(),
+    normalMap: z.string().optional(),
+    roughnessMap: z.string().optional(),
+    emissiveMap: z.string().optional(),
+  }).strict().optional(),
+  ring: z.object({
+    inner: finite.positive(),
+    outer: finite.positive(),
+    map: z.string().optional(),
+    alphaMap: z.string().optional(),
+    tiltDeg: finite.optional(),
+  }).strict().refine(r => r.outer > r.inner, { message: "outer must be larger than inner" }).optional(),
+  model: z.object({
+    url: z.string(),
+    scale: finite.positive().optional(),
+    yUp: z.boolean().optional(),
+  }).strict().optional(),
+}).strict();
+
+const settingsSchema = z.object({
+  integrator: z.enum(["leapfrog", "rk4", "dopri", "yoshida4", "yoshida6", "wh", "kepler"]),
+  massScale: finite.positive(),
+  velScale: finite.positive(),
+  tolerance: finite.positive(),
+  forceSolver: z.enum(["direct", "barnes-hut"]),
+  bhTheta: finite.nonnegative(),
+  collisions: z.enum(["off", "merge", "bounce", "delete"]),
+  gr: z.boolean(),
+  perihelionBody: z.string(),
+}).strict().partial();
+
+const burnSchema = z.object({
+  id: z.string().optional(),
+  target: z.string(),
+  t: finite,                                          // sim days after the epoch
+  duration: finite.nonnegative(),
+  dv: finite,                                         // m/s
+  frame: z.enum(["prograde", "radial", "normal", "toward"]),
+  ref: z.string(),
+}).strict();
+
+const displaySchema = z.object({
+  trailLen: z.number().int().nonnegative(),
+  label: z.boolean(),
+  labelSize: finite.positive(),
+  color: z.string().nullable(),
+  focusable: z.boolean(),
+}).strict().partial();
+
+const scenarioSchema = z.object({
+  version: z.literal(SCENARIO_VERSION),
+  name: z.string().optional(),
+  epochJD: finite.optional(),                         // calendar time of t = 0
+  bodies: z.array(bodySchema).min(1),
+  settings: settingsSchema.optional(),
+  burns: z.array(burnSchema).optional(),
+  display: z.record(displaySchema).optional(),
+  trailLen: z.record(z.number().int().nonnegative()).optional(), // older files; display[id].trailLen wins
+}).strict().superRefine((s, ctx) => {
+  const ids = new Set<string>();
+  s.bodies.forEach((b, k) => {
+    if (ids.has(b.id)) ctx.addIssue({ code: "custom", path: ["bodies", k, "id"], message: `duplicate id "${b.id}"` });
+    ids.add(b.id);
+  });
+  // the engine seeds and steps each body after its primary, so parents come first and never loop
+  const index = new Map(s.bodies.map((b, k) => [b.id, k] as const));
+  s.bodies.forEach((b, k) => {
+    if (b.parent === undefined) return;
+    const path = ["bodies", k, "parent"];
+    const p = index.get(b.parent);
+    if (p === undefined || b.parent === b.id) {
+      ctx.addIssue({ code: "custom", path, message: `no other body with id "${b.parent}"` });
+      return;
+    }
+    // walk up the parents; the bound stops at a loop that doesn't pass through this body
+    const chain = [b.id];
+    let up: string | undefined = b.parent;
+    while (up !== undefined && up !== b.id && chain.length <= s.bodies.length) {
+      chain.push(up);
+      const u = index.get(up);
+      up = u === undefined ? undefined : s.bodies[u].parent;
+    }
+    if (up === b.id) {
+      ctx.addIssue({ code: "custom", path, message: `parents loop back to this body: ${[...chain, up].join(" → ")}` });
+      return;
+    }
+    if (p > k) {
+      ctx.addIssue({ code: "custom", path, message: `"${b.parent}" is listed after this body; list each body after its parent` });
+    }
+  });
+  s.burns?.forEach((b, k) => {
+    for (const key of ["target", "ref"] as const) {
+      if (!ids.has(b[key])) ctx.addIssue({ code: "custom", path: ["burns", k, key], message: `no body with id "${b[key]}"` });
+    }
+  });
+});
+
+export type Scenario = {
+  version: typeof SCENARIO_VERSION;
+  name?: string;
+  epochJD?: number;
+  bodies: BodyInit[];
+  settings?: Partial<EngineSettings>;
+  burns?: Burn[];
+  display?: Record<string, Partial<BodyDisplay>>;
+};
+
+/** `value[key]` if value is an object or array that has it. */
+function child(value: unknown, key: string | number): unknown {
+  return typeof value === "object" && value !== null && key in value
+    ? (value as Record<string | number, unknown>)[key]
+    : undefined;
+}
+
+/** "bodies[3] (mars).position[1]": array indices in brackets, with the body id where there is one. */
+function issuePath(path: (string | number)[], json: unknown): string {
+  let out = "";
+  let node = json;
+  for (const key of path) {
+    node = child(node, key);
+    if (typeof key === "number") {
+      out += `[${key}]`;
+      const id = child(node, "id");
+      if (typeof id === "string") out += ` (${id})`;
+    } else {
+      out += out ? `.${key}` : key;
+    }
+  }
+  return out || "(file)";
+}
+
+/** Validate parsed JSON as a scenario; errors are one line each, path first. */
+export function parseScenario(json: unknown): { scenario: Scenario } | { errors: string[] } {
+  if (Array.isArray(json)) {
+    return { errors: [`(file): expected a scenario object, got an array; wrap a body list as { "version": ${SCENARIO_VERSION}, "bodies": [...] }`] };
+  }
+  const version = child(json, "version");
+  if (version !== undefined && version !== SCENARIO_VERSION) {
+    return { errors: [`version: this build reads version ${SCENARIO_VERSION} scenarios, the file is version ${JSON.stringify(version)}`] };
+  }
+  const result = scenarioSchema.safeParse(json);
+  if (!result.success) {
+    return { errors: result.error.issues.map(i => `${issuePath(i.path, json)}: ${i.message}`) };
+  }
+  const { trailLen, display, ...s } = result.data;
+  const merged: Record<string, Partial<BodyDisplay>> = {};
+  for (const [id, n] of Object.entries(trailLen ?? {})) merged[id] = { trailLen: n };
+  for (const [id, d] of Object.entries(display ?? {})) merged[id] = { ...merged[id], ...d };
+  return {
+    scenario: {
+      ...s,
+      bodies: s.bodies.map(b => ({ ...b, name: b.name ?? b.id })),
+      burns: s.burns?.map((b, k) => ({ ...b, id: b.id ?? `burn-${k + 1}` })),
+      ...(trailLen || display ? { display: merged } : {}),
+    },
+  };
+}
+
+/** Parse a scenario file's text (JSON syntax errors are reported like validation errors). */
+export function parseScenarioText(text: string): { scenario: Scenario } | { errors: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return { errors: [`not valid JSON: ${(e as Error).message}`] };
+  }
+  return parseScenario(json);
+}
+
+/** Scenario for the given state; `t` (sim days) becomes the new t = 0, so burns still ahead shift with it. */
+export function makeScenario(p: {
+  name?: string;
+  t: number;
+  epochJD: number;
+  bodies: BodyInit[];
+  settings: Partial<EngineSettings>;
+  burns: Burn[];
+  display: Record<string, BodyDisplay>;
+}): Scenario {
+  const ids = new Set(p.bodies.map(b => b.id));
+  return {
+    version: SCENARIO_VERSION,
+    ...(p.name ? { name: p.name } : {}),
+    epochJD: p.epochJD + p.t,
+    bodies: p.bodies,
+    settings: p.settings,
+    burns: p.burns
+      .filter(b => b.t + b.duration > p.t && ids.has(b.target) && ids.has(b.ref))
+      .map(b => ({ ...b, t: b.t - p.t })),
+    display: Object.fromEntries(Object.entries(p.display).filter(([id]) => ids.has(id))),
+  };
+}
@@ -0,0 +1,95 @@
+// lib/simProtocol.ts
+// Messages between the UI thread and the physics worker (workers/sim.worker.ts).
+import type { Body, BodyInit } from "~/lib/bodies";
+import type { BodyEdit, EngineSettings, PrecessionReport, RoundTrip } from "~/lib/engine";
+import type { ForceAccuracy } from "~/lib/forces";
+import type { AdaptiveState } from "~/lib/physics";
+import type { Drift } from "~/lib/diagnostics";
+import type { CollisionEvent } from "~/lib/collisions";
+import type { Population } from "~/lib/particles";
+import type { Burn } from "~/lib/maneuvers";
+import type { HistoryRange } from "~/lib/history";
+import type { Porkchop, PorkchopSpec, TransferOutcome } from "~/lib/transfer";
+
+/**
+ * Settings the worker follows; `daysPerSecond` replaces the old per-frame dt×timeScale.
+ * A negative rate runs the system backward in time.
+ */
+export type WorkerSettings = EngineSettings & {
+  running: boolean;
+  daysPerSecond: number;
+};
+
+export type ToWorker =
+  | { type: "settings"; settings: Partial<WorkerSettings> }
+  /** Replace the system with these bodies at t = 0 (an imported scenario). */
+  | { type: "load"; bodies: BodyInit[] }
+  /** Sun + Mercury alone on Mercury's real orbit, for the GR precession check. */
+  | { type: "loadPrecessionTest" }
+  | { type: "forceCheck" }
+  /** Forward-then-backward reversibility check over `days` for every integrator. */
+  | { type: "roundTrip"; days: number }
+  /** Propagate (forward or backward) to sim time t, days. */
+  | { type: "jump"; t: number }
+  /** Restore the latest history snapshot at or before sim time t (the next run branches from it). */
+  | { type: "seek"; t: number }
+  | { type: "particles"; population: Population; count: number }
+  | { type: "clearParticles" }
+  | { type: "burns"; burns: Burn[] }
+  /** Lambert transfers from one body to another over a grid of departure × arrival times. */
+  | { type: "porkchop"; spec: PorkchopSpec }
+  /** Propagate to `depart` and launch the payload on the arc arriving at `to` at `arrive`; a past `depart` is refused. */
+  | { type: "transfer"; from: string; to: string; depart: number; arrive: number }
+  /** Add (or move) the massless payload; without a state it is parked in GEO around Earth. */
+  | { type: "payload"; position?: [number, number, number]; velocity?: [number, number, number] }
+  /** Current bodies with their full state, answered by a "bodyInits" message (scenario export). */
+  | { type: "getBodyInits" }
+  /** Body editor: change, add or delete one body without resetting (state relative to `relativeTo` if given). */
+  | { type: "editBody"; id: string; edit: BodyEdit }
+  | { type: "addBody"; body: BodyInit; relativeTo?: string }
+  | { type: "removeBody"; id: string }
+  /** Hand a consumed snapshot's buffers back so the worker can reuse them. */
+  | { type: "recycle"; pos: Float64Array; vel: Float64Array };
+
+/**
+ * Position/velocity snapshot; pos/vel are transferred, not copied.
+ * Covers the bodies followed by the test particles (see SimState.nBodies).
+ */
+export type FrameMsg = {
+  type: "frame";
+  seq: number;
+  t: number;           // sim days
+  pos: Float64Array;
+  vel: Float64Array;
+  discontinuous?: boolean; // jumped: don't interpolate or draw trails across it
+  trails?: Record<string, Float32Array>; // with a seek: per-body path from history (flat xyz)
+};
+
+/** The body list or particle count changed: `reset` for a new system, otherwise merges/removals/spawns. */
+export type BodiesMsg = {
+  type: "bodies";
+  bodies: Body[];
+  masses: number[];    // Msun, per body (unscaled)
+  particles: number;
+  reset: boolean;
+};
+
+export type FromWorker =
+  | FrameMsg
+  | BodiesMsg
+  | { type: "collisions"; events: CollisionEvent[] }
+  | {
+      type: "stats";
+      t: number;          // sim days
+      steps: AdaptiveState;
+      targetDps: number;  // requested days per wall second
+      actualDps: number;  // achieved days per wall second
+      drift: Drift;       // conserved-quantity drift since reset
+      precession: PrecessionReport | null;
+      history: HistoryRange | null; // snapshots available for seeking
+    }
+  | { type: "forceAccuracy"; result: ForceAccuracy }
+  | { type: "roundTrip"; results: RoundTrip[] }
+  | { type: "porkchop"; result: Porkchop | null }
+  | { type: "transfer"; result: TransferOutcome }
+  | { type: "bodyInits"; t: number; bodies: BodyInit[] };
@@ -0,0 +1,122 @@
+// lib/simstate.ts
+import type { Body, BodyInit } from "~/lib/bodies";
+
+/**
+ * Struct-of-arrays simulation state.
+ * Body i lives at pos[3i..3i+2] / vel[3i..3i+2] / mass[i] / radius[i]; the matching
+ * metadata is bodies[i] in whatever Body[] the state was created with.
+ * Entries from `nBodies` on are massless test particles (belts, swarms): they
+ * have no metadata, feel the massive bodies and are stepped with them in bulk.
+ * Integrators step these buffers in place and never allocate per frame:
+ * their temporaries come from `scratch()` and are kept in `work`.
+ */
+export type SimState = {
+  n: number;           // bodies + test particles
+  nBodies: number;     // entries with Body metadata; the rest are test particles
+  pos: Float64Array;   // AU
+  vel: Float64Array;   // AU/day
+  mass: Float64Array;  // Msun (unscaled; massScale is applied by the integrators)
+  radius: Float64Array; // AU, physical radius for collisions (0 = point particle)
+  work: Record<string, Float64Array>;
+};
+
+export function allocState(n: number, nBodies = n): SimState {
+  return {
+    n,
+    nBodies,
+    pos: new Float64Array(3 * n),
+    vel: new Float64Array(3 * n),
+    mass: new Float64Array(n),
+    radius: new Float64Array(n),
+    work: {},
+  };
+}
+
+/** Split initial conditions into metadata + packed buffers. */
+export function createSimState(init: BodyInit[]): { bodies: Body[]; state: SimState } {
+  const state = allocState(init.length);
+  const bodies: Body[] = init.map((b, i) => {
+    state.pos.set(b.position, 3 * i);
+    state.vel.set(b.velocity, 3 * i);
+    state.mass[i] = b.mass;
+    state.radius[i] = b.physRadius ?? 0;
+    const { mass: _m, position: _p, velocity: _v, physRadius: _r, ...meta } = b;
+    return meta;
+  });
+  return { bodies, state };
+}
+
+/** Inverse of createSimState for the bodies (allocates; for export/snapshots, not the hot path). */
+export function toBodyInits(bodies: Body[], state: SimState): BodyInit[] {
+  return bodies.map((b, i) => ({
+    ...b,
+    mass: state.mass[i],
+    position: [state.pos[3*i], state.pos[3*i+1], state.pos[3*i+2]],
+    velocity: [state.vel[3*i], state.vel[3*i+1], state.vel[3*i+2]],
+    physRadius: state.radius[i],
+  }));
+}
+
+/** Independent copy of the buffers (scratch is not carried over). */
+export function cloneState(state: SimState): SimState {
+  return {
+    n: state.n,
+    nBodies: state.nBodies,
+    pos: state.pos.slice(),
+    vel: state.vel.slice(),
+    mass: state.mass.slice(),
+    radius: state.radius.slice(),
+    work: {},
+  };
+}
+
+/** Copy of the system without the entries at `drop` (a new state; scratch is not carried over). */
+export function removeBodies(
+  bodies: Body[],
+  state: SimState,
+  drop: Iterable<number>
+): { bodies: Body[]; state: SimState } {
+  const gone = new Set(drop);
+  const keep: number[] = [];
+  for (let i = 0; i < state.n; i++) if (!gone.has(i)) keep.push(i);
+  const kept = keep.filter(i => i < state.nBodies);
+  const next = allocState(keep.length, kept.length);
+  keep.forEach((i, k) => {
+    next.pos.set(state.pos.subarray(3*i, 3*i + 3), 3*k);
+    next.vel.set(state.vel.subarray(3*i, 3*i + 3), 3*k);
+    next.mass[k] = state.mass[i];
+    next.radius[k] = state.radius[i];
+  });
+  return { bodies: kept.map(i => bodies[i]), state: next };
+}
+
+/**
+ * Copy of the state with test particles appended (pos/vel flat, same layout).
+ * `replace` drops the existing particles first.
+ */
+export function withParticles(state: SimState, pos: ArrayLike<number>, vel: ArrayLike<number>, replace = false): SimState {
+  const nb = state.nBodies;
+  const keepN = replace ? nb : state.n;
+  const next = allocState(keepN + pos.length / 3, nb);
+  next.pos.set(state.pos.subarray(0, 3 * keepN));
+  next.vel.set(state.vel.subarray(0, 3 * keepN));
+  next.mass.set(state.mass.subarray(0, keepN));
+  next.radius.set(state.radius.subarray(0, keepN));
+  next.pos.set(pos, 3 * keepN);
+  next.vel.set(vel, 3 * keepN);
+  return next;
+}
+
+/** Named temporary buffer of `len` doubles, reused across calls. */
+export function scratch(state: SimState, key: string, len: number): Float64Array {
+  let buf = state.work[key];
+  if (!buf || buf.length !== len) {
+    buf = new Float64Array(len);
+    state.work[key] = buf;
+  }
+  return buf;
+}
+
+export function indexOfBody(bodies: Body[], id: string): number {
+  return bodies.findIndex(b => b.id === id);
+}
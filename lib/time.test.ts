@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dateToJd, formatUtc, J2000_JD, jdToDate, parseUtc } from "~/lib/time";
+
+test("JD conversions hit the known epochs and round-trip", () => {
+  assert.equal(dateToJd(new Date(Date.UTC(2000, 0, 1, 12))), J2000_JD);
+  assert.equal(dateToJd(new Date(0)), 2440587.5);
+  assert.equal(jdToDate(J2000_JD).toISOString(), "2000-01-01T12:00:00.000Z");
+  const jd = 2460000.25;
+  assert.ok(Math.abs(dateToJd(jdToDate(jd)) - jd) < 1e-8);
+  assert.equal(formatUtc(J2000_JD), "2000-01-01 12:00 UTC");
+  assert.equal(formatUtc(Number.NaN), "");
+});
+
+test("parseUtc reads dates and datetime-local values as UTC", () => {
+  assert.equal(parseUtc("2000-01-01T12:00"), J2000_JD);
+  assert.equal(parseUtc(" 2000-01-01 12:00:00 "), J2000_JD);
+  assert.equal(parseUtc("2000-01-01"), J2000_JD - 0.5);
+  assert.equal(parseUtc("2024-02-29"), dateToJd(new Date(Date.UTC(2024, 1, 29))));
+});
+
+test("parseUtc rejects out-of-range fields instead of rolling them over", () => {
+  for (const text of [
+    "2024-13-45", "2024-00-10", "2024-04-31", "2023-02-29", "1900-02-29",
+    "2024-01-00", "2024-01-01T24:00", "2024-01-01T12:60", "2024-01-01T12:00:60",
+    "2024-1-1", "yesterday",
+  ]) {
+    assert.equal(parseUtc(text), null, text);
+  }
+});
@@ -0,0 +1,45 @@
+// lib/time.ts
+// Julian dates ↔ calendar (UTC). Sim time t (days) maps to JD = epochJD + t.
+
+/** JD of the J2000.0 epoch, 2000-01-01 12:00 TT (treated as UTC here). */
+export const J2000_JD = 2451545.0;
+
+/** JD of the Unix epoch, 1970-01-01 00:00 UTC. */
+const UNIX_EPOCH_JD = 2440587.5;
+const MS_PER_DAY = 86400000;
+
+export function jdToDate(jd: number): Date {
+  return new Date((jd - UNIX_EPOCH_JD) * MS_PER_DAY);
+}
+
+export function dateToJd(date: Date): number {
+  return date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+/** "YYYY-MM-DD HH:MM UTC" (empty for dates JS can't represent). */
+export function formatUtc(jd: number): string {
+  const d = jdToDate(jd);
+  if (Number.isNaN(d.getTime())) return "";
+  return `${d.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function daysInMonth(year: number, month: number): number {
+  const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  return month === 2 && leap ? 29 : DAYS_IN_MONTH[month - 1];
+}
+
+/**
+ * Parse "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM[:SS]" (an <input type="datetime-local">
+ * value) as UTC. Returns the JD, or null if it isn't a valid date: fields out of
+ * range (2024-02-30, 25:00) are rejected, not rolled over the way Date.UTC would.
+ */
+export function parseUtc(text: string): number | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(text.trim());
+  if (!m) return null;
+  const [y, mo, d, h, mi, s] = m.slice(1).map(x => Number(x ?? 0));
+  if (mo < 1 || mo > 12 || d < 1 || d > daysInMonth(y, mo) || h > 23 || mi > 59 || s > 59) return null;
+  const ms = Date.UTC(y, mo - 1, d, h, mi, s);
+  return Number.isNaN(ms) ? null : ms / MS_PER_DAY + UNIX_EPOCH_JD;
+}
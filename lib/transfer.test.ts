@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AU_KM, ensurePayload, makeEphemerisBodies } from "~/lib/bodies";
+import { advanceTo, createEngine, setBodies } from "~/lib/engine";
+import { zeroSystemMomentum } from "~/lib/physics";
+import { createSimState, indexOfBody, toBodyInits } from "~/lib/simstate";
+import { J2000_JD } from "~/lib/time";
+import { transferPayload } from "~/lib/transfer";
+
+test("a payload launched from Earth's sphere of influence flies the n-body run into Mars's", () => {
+  const init = makeEphemerisBodies(J2000_JD)
+    .filter(b => ["sun", "mercury", "venus", "earth", "mars", "jupiter"].includes(b.id));
+  zeroSystemMomentum(init);
+  const engine = createEngine(createSimState(init), { integrator: "dopri", collisions: "off" });
+  // the 2001 window: the cheapest cell of a porkchop over the following two years
+  const depart = 451, arrive = 746;
+  advanceTo(engine, depart);
+  const launch = transferPayload(engine, "earth", "mars", arrive - depart);
+  assert.ok(launch);
+  assert.ok(launch.c3 > 8 && launch.c3 < 11, `C3 ${launch.c3}`);
+
+  const bodies = toBodyInits(engine.bodies, engine.state);
+  ensurePayload(bodies, launch.position, launch.velocity);
+  setBodies(engine, bodies);
+  const p = indexOfBody(engine.bodies, "payload"), m = indexOfBody(engine.bodies, "mars");
+  let closest = Infinity;
+  for (let t = arrive - 10; t <= arrive + 10; t += 0.25) {
+    advanceTo(engine, t);
+    const { pos } = engine.state;
+    closest = Math.min(closest, Math.hypot(pos[3*p] - pos[3*m], pos[3*p+1] - pos[3*m+1], pos[3*p+2] - pos[3*m+2]));
+  }
+  // Mars's sphere of influence is ~580 000 km
+  assert.ok(closest * AU_KM < 2e5, `closest approach ${(closest * AU_KM).toFixed(0)} km`);
+});
@@ -0,0 +1,132 @@
+// lib/transfer.ts
+// Interplanetary transfer planning on the running system: porkchop grids of
+// Lambert arcs between two bodies, and the payload state for a chosen one.
+// Patched conics around the Sun: each body follows its current osculating
+// heliocentric orbit to the dates involved, the transfer ignores the planets.
+import { AU_KM, G } from "~/lib/bodies";
+import { propagateKepler, solveLambert } from "~/lib/kepler";
+import { indexOfBody } from "~/lib/simstate";
+import type { Engine } from "~/lib/engine";
+
+const KM_S = AU_KM / 86400; // km/s per AU/day
+/** Times the arc is re-solved from the launch point, which moves with v∞. */
+const LAUNCH_ITERATIONS = 3;
+
+/** Departure and arrival windows in sim days; `n` × `n` cells. */
+export type PorkchopSpec = {
+  from: string;
+  to: string;
+  depart: [number, number];
+  arrive: [number, number];
+  n: number;
+};
+
+/**
+ * Row-major over (departure, arrival), departure slowest. NaN where the arc
+ * doesn't exist (arrival not after departure, or no single-revolution solution).
+ */
+export type Porkchop = {
+  spec: PorkchopSpec;
+  c3: Float64Array;    // departure C3 = v∞², km²/s²
+  dv: Float64Array;    // departure + arrival v∞, km/s
+};
+
+/**
+ * What a launch request came to: the departure C3 of the arc the payload
+ * actually flies, or why nothing was launched.
+ */
+export type TransferOutcome = { from: string; to: string; depart: number; arrive: number } & (
+  | { c3: number }
+  | { error: string }
+);
+
+type Vec3 = [number, number, number];
+
+/** Heliocentric states of body `id` at each of `times` (sim days), on its osculating orbit. */
+function statesAt(engine: Engine, id: string, times: number[]): { pos: Vec3; vel: Vec3 }[] | null {
+  const { state, sunIndex, settings } = engine;
+  const i = indexOfBody(engine.bodies, id);
+  if (i < 0 || i === sunIndex) return null;
+  const s = 3 * sunIndex;
+  const mu = G * (state.mass[sunIndex] + state.mass[i]) * settings.massScale;
+  return times.map(t => {
+    const pos = [0, 1, 2].map(c => state.pos[3*i+c] - state.pos[s+c]);
+    const vel = [0, 1, 2].map(c => state.vel[3*i+c] - state.vel[s+c]);
+    propagateKepler(pos, vel, 0, mu, t - engine.t);
+    return { pos: pos as Vec3, vel: vel as Vec3 };
+  });
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const norm = (a: Vec3) => Math.hypot(a[0], a[1], a[2]);
+
+const steps = ([t0, t1]: [number, number], n: number) =>
+  Array.from({ length: n }, (_, k) => (n > 1 ? t0 + (t1 - t0) * k / (n - 1) : t0));
+
+/** Departure C3 and total v∞ for every cell of the grid; null if either body is missing or the Sun. */
+export function computePorkchop(engine: Engine, spec: PorkchopSpec): Porkchop | null {
+  const n = Math.max(1, Math.floor(spec.n));
+  const tDep = steps(spec.depart, n), tArr = steps(spec.arrive, n);
+  const dep = statesAt(engine, spec.from, tDep), arr = statesAt(engine, spec.to, tArr);
+  if (!dep || !arr || spec.from === spec.to) return null;
+  const mu = G * engine.state.mass[engine.sunIndex] * engine.settings.massScale;
+
+  const c3 = new Float64Array(n * n).fill(NaN), dv = new Float64Array(n * n).fill(NaN);
+  for (let a = 0; a < n; a++) {
+    for (let b = 0; b < n; b++) {
+      const arc = solveLambert(dep[a].pos, arr[b].pos, tArr[b] - tDep[a], mu);
+      if (!arc) continue;
+      const vDep = norm(sub(arc.v1, dep[a].vel)) * KM_S;
+      const vArr = norm(sub(arc.v2, arr[b].vel)) * KM_S;
+      c3[a * n + b] = vDep * vDep;
+      dv[a * n + b] = vDep + vArr;
+    }
+  }
+  return { spec: { ...spec, n }, c3, dv };
+}
+
+/** Where and how the payload leaves, plus the departure C3 of the arc it actually flies. */
+export type TransferLaunch = { position: Vec3; velocity: Vec3; c3: number };
+
+/**
+ * Barycentric payload state leaving `from` now on a Lambert arc that reaches
+ * `to` after `tof` days. The payload starts on the edge of the departure
+ * body's sphere of influence, along v∞, so the planet's pull doesn't swamp it.
+ * The arc is solved from that launch point (which moves with the direction
+ * of v∞, so the two are iterated together), and the launch speed is raised by
+ * what climbing out of the planet's well from the SOI edge costs, so the
+ * payload leaves it with the arc's v∞. Null if there is no arc.
+ */
+export function transferPayload(
+  engine: Engine,
+  from: string,
+  to: string,
+  tof: number
+): TransferLaunch | null {
+  const dep = statesAt(engine, from, [engine.t]), arr = statesAt(engine, to, [engine.t + tof]);
+  if (!dep || !arr || from === to) return null;
+  const { state, sunIndex, settings } = engine;
+  const mu = G * state.mass[sunIndex] * settings.massScale;
+  const i = indexOfBody(engine.bodies, from), s = 3 * sunIndex;
+  const soi = norm(dep[0].pos) * Math.pow(state.mass[i] / state.mass[sunIndex], 0.4);
+
+  let arc = solveLambert(dep[0].pos, arr[0].pos, tof, mu);
+  let start = dep[0].pos;
+  for (let it = 0; it < LAUNCH_ITERATIONS && arc; it++) {
+    const vinf = sub(arc.v1, dep[0].vel);
+    const len = norm(vinf);
+    if (!(len > 0)) break;
+    start = [0, 1, 2].map(c => dep[0].pos[c] + soi * vinf[c] / len) as Vec3;
+    arc = solveLambert(start, arr[0].pos, tof, mu);
+  }
+  if (!arc) return null;
+
+  const vinf = sub(arc.v1, dep[0].vel);
+  const v2 = vinf[0] ** 2 + vinf[1] ** 2 + vinf[2] ** 2;
+  const escape = v2 > 0 ? Math.sqrt(1 + 2 * G * state.mass[i] * settings.massScale / (soi * v2)) : 1;
+  return {
+    position: [0, 1, 2].map(c => state.pos[s+c] + start[c]) as Vec3,
+    velocity: [0, 1, 2].map(c => state.vel[s+c] + dep[0].vel[c] + escape * vinf[c]) as Vec3,
+    c3: v2 * KM_S * KM_S,
+  };
+}
@@ -0,0 +1,241 @@
+// scripts/sim.ts
+// Headless runner: integrates a scenario with the same engine the Web Worker
+// uses (lib/ only, no React/Three) and writes ephemerides plus conservation
+// diagnostics, for regression runs and data generation.
+//
+//   npm run sim -- --scenario solar-system --days 3650 --every 10 --integrator wh --out run.csv
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import type { Body } from "~/lib/bodies";
+import {
+  advanceTo,
+  createEngine,
+  engineDrift,
+  type EngineSettings,
+} from "~/lib/engine";
+import type { Drift } from "~/lib/diagnostics";
+import type { ForceSolver } from "~/lib/forces";
+import type { Burn } from "~/lib/maneuvers";
+import type { Integrator } from "~/lib/physics";
+import { makePrecessionTestBodies } from "~/lib/relativity";
+import { parseScenarioText, SCENARIO_VERSION, type Scenario } from "~/lib/scenario";
+import { isPresetId, makePreset, PRESET_IDS } from "~/lib/presets";
+import { createSimState, type SimState } from "~/lib/simstate";
+import { J2000_JD, parseUtc } from "~/lib/time";
+import type { CollisionMode } from "~/lib/collisions";
+
+const USAGE = `Usage: npm run sim -- [options]
+
+  --scenario <name|file>   a preset: ${PRESET_IDS.join(", ")}
+                           (default is solar-system: Sun and planets at --epoch,
+                           from JPL mean elements; solar-system-moons adds the
+                           major moons); mercury (Sun + Mercury, for the GR
+                           check); or a scenario file (see below) [solar-system]
+  --days <n>               span to integrate; negative runs backward    [365]
+  --every <n>              output cadence, days                          [1]
+  --integrator <name>      leapfrog | rk4 | yoshida4 | yoshida6 | wh | dopri | kepler  [leapfrog]
+  --tolerance <x>          dopri relative tolerance                      [1e-10]
+  --solver <name>          direct | barnes-hut                           [direct]
+  --theta <x>              Barnes–Hut opening angle                      [0.5]
+  --collisions <mode>      off | merge | bounce | delete                 [off]
+  --gr                     1PN correction from the Sun
+  --epoch <jd|date>        calendar time of t = 0, JD or YYYY-MM-DD[THH:MM] UTC;
+                           also where the presets' planets start
+                           [the scenario file's epochJD, else J2000]
+  --format <csv|json>      output format (default from --out, else csv)
+  --out <file>             ephemeris file (stdout if omitted); CSV runs also
+                           write <file>.diagnostics.csv
+  --help
+
+Scenario files are the JSON the app exports (lib/scenario.ts, version ${SCENARIO_VERSION}):
+  { "version": ${SCENARIO_VERSION}, "epochJD"?: number, "bodies": BodyInit[],
+    "burns"?: Burn[], "settings"?: Partial<EngineSettings>, "display"?: {...} }
+with positions in AU and velocities in AU/day (barycentric). Options given on
+the command line override the file's settings.`;
+
+const INTEGRATORS: Integrator[] = ["leapfrog", "rk4", "dopri", "yoshida4", "yoshida6", "wh", "kepler"];
+const SOLVERS: ForceSolver[] = ["direct", "barnes-hut"];
+const COLLISIONS: CollisionMode[] = ["off", "merge", "bounce", "delete"];
+
+class UsageError extends Error {}
+
+function fail(msg: string): never {
+  throw new UsageError(msg);
+}
+
+function num(name: string, text: string | undefined, fallback: number): number {
+  if (text === undefined) return fallback;
+  const x = Number(text);
+  if (!Number.isFinite(x)) fail(`--${name}: not a number: ${text}`);
+  return x;
+}
+
+function oneOf<T extends string>(name: string, text: string | undefined, allowed: T[], fallback: T): T {
+  if (text === undefined) return fallback;
+  if (!allowed.includes(text as T)) fail(`--${name}: expected one of ${allowed.join(", ")}, got ${text}`);
+  return text as T;
+}
+
+type Loaded = {
+  system: { bodies: Body[]; state: SimState };
+  burns: Burn[];
+  settings: Partial<EngineSettings>;
+  epochJD?: number;
+};
+
+function fromScenario(scenario: Scenario): Loaded {
+  return {
+    system: createSimState(scenario.bodies),
+    burns: scenario.burns ?? [],
+    settings: scenario.settings ?? {},
+    epochJD: scenario.epochJD,
+  };
+}
+
+function loadScenario(name: string, epochJD: number): Loaded {
+  const preset = name === "default" ? "solar-system" : name;
+  if (isPresetId(preset)) return fromScenario(makePreset(preset, epochJD));
+  if (name === "mercury") return { system: createSimState(makePrecessionTestBodies()), burns: [], settings: {} };
+  let text: string;
+  try {
+    text = readFileSync(name, "utf8");
+  } catch {
+    fail(`unknown scenario "${name}" (not a preset, mercury or a readable file)`);
+  }
+  const parsed = parseScenarioText(text);
+  if ("errors" in parsed) fail(parsed.errors.map(e => `${name}: ${e}`).join("\n"));
+  return fromScenario(parsed.scenario);
+}
+
+type Sample = { t: number; pos: Float64Array; vel: Float64Array; ids: string[]; drift: Drift };
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      scenario: { type: "string" },
+      days: { type: "string" },
+      every: { type: "string" },
+      integrator: { type: "string" },
+      tolerance: { type: "string" },
+      solver: { type: "string" },
+      theta: { type: "string" },
+      collisions: { type: "string" },
+      gr: { type: "boolean" },
+      epoch: { type: "string" },
+      format: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const days = num("days", values.days, 365);
+  const every = num("every", values.every, 1);
+  if (!(every > 0)) fail("--every must be > 0");
+  const epochText = values.epoch;
+  const epochArg = epochText === undefined ? undefined
+    : Number.isFinite(Number(epochText)) ? Number(epochText)
+    : parseUtc(epochText) ?? fail(`--epoch: not a JD or UTC date: ${epochText}`);
+  const out = values.out;
+  const format = oneOf("format", values.format, ["csv", "json"], out?.endsWith(".json") ? "json" : "csv");
+
+  const scenario = loadScenario(values.scenario ?? "solar-system", epochArg ?? J2000_JD);
+  const epochJD = epochArg ?? scenario.epochJD ?? J2000_JD;
+  const settings: Partial<EngineSettings> = {
+    ...scenario.settings,
+    integrator: oneOf("integrator", values.integrator, INTEGRATORS, scenario.settings.integrator ?? "leapfrog"),
+    tolerance: num("tolerance", values.tolerance, scenario.settings.tolerance ?? 1e-10),
+    forceSolver: oneOf("solver", values.solver, SOLVERS, scenario.settings.forceSolver ?? "direct"),
+    bhTheta: num("theta", values.theta, scenario.settings.bhTheta ?? 0.5),
+    collisions: oneOf("collisions", values.collisions, COLLISIONS, scenario.settings.collisions ?? "off"),
+    gr: values.gr ?? scenario.settings.gr ?? false,
+  };
+  const engine = createEngine(scenario.system, settings);
+  engine.burns = scenario.burns;
+
+  // --- integrate, sampling every `every` days (the last step may be shorter)
+  const samples: Sample[] = [];
+  const sample = () => {
+    const { state } = engine;
+    const len = 3 * state.nBodies;
+    samples.push({
+      t: engine.t,
+      pos: state.pos.slice(0, len),
+      vel: state.vel.slice(0, len),
+      ids: engine.bodies.map(b => b.id),
+      drift: engineDrift(engine),
+    });
+  };
+  const start = performance.now();
+  const sign = days < 0 ? -1 : 1;
+  sample();
+  while (sign * (days - engine.t) > 1e-12) {
+    if (!advanceTo(engine, engine.t + sign * Math.min(every, sign * (days - engine.t)))) {
+      console.error(`sim: the integrator stalled at t = ${engine.t} d; output stops there`);
+      break;
+    }
+    sample();
+  }
+  const ms = performance.now() - start;
+
+  // --- write
+  const meta = {
+    scenario: values.scenario ?? "solar-system",
+    epochJD,
+    days,
+    every,
+    settings: engine.settings,
+    collisionEvents: engine.events.length,
+    wallMs: Math.round(ms),
+  };
+  if (format === "json") {
+    const json = JSON.stringify({
+      meta,
+      samples: samples.map(s => ({
+        t: s.t,
+        jd: epochJD + s.t,
+        bodies: Object.fromEntries(s.ids.map((id, i) => [id, {
+          position: [s.pos[3*i], s.pos[3*i+1], s.pos[3*i+2]],
+          velocity: [s.vel[3*i], s.vel[3*i+1], s.vel[3*i+2]],
+        }])),
+        drift: { dE: s.drift.dE, dL: s.drift.dL, dP: s.drift.dP },
+      })),
+    });
+    if (out) writeFileSync(out, json + "\n");
+    else process.stdout.write(json + "\n");
+  } else {
+    const rows = ["t,jd,body,x,y,z,vx,vy,vz"];
+    for (const s of samples) {
+      const head = `${s.t},${epochJD + s.t}`;
+      s.ids.forEach((id, i) => {
+        rows.push(`${head},${id},${s.pos[3*i]},${s.pos[3*i+1]},${s.pos[3*i+2]},${s.vel[3*i]},${s.vel[3*i+1]},${s.vel[3*i+2]}`);
+      });
+    }
+    const diag = ["t,jd,dE,dL,dP", ...samples.map(s => `${s.t},${epochJD + s.t},${s.drift.dE},${s.drift.dL},${s.drift.dP}`)];
+    if (out) {
+      writeFileSync(out, rows.join("\n") + "\n");
+      writeFileSync(out.replace(/\.csv$/, "") + ".diagnostics.csv", diag.join("\n") + "\n");
+    } else {
+      process.stdout.write(rows.join("\n") + "\n");
+    }
+  }
+
+  // --- summary (stderr, so stdout stays a clean data stream)
+  const worst = (k: "dE" | "dL" | "dP") => Math.max(...samples.map(s => Math.abs(s.drift[k])));
+  console.error(
+    `${meta.scenario}: ${samples.length} samples over ${days} d with ${engine.settings.integrator} ` +
+    `in ${(ms / 1000).toFixed(2)} s; max |dE/E| ${worst("dE").toExponential(2)}, ` +
+    `|dL/L| ${worst("dL").toExponential(2)}, |dP| ${worst("dP").toExponential(2)}`
+  );
+}
+
+try {
+  main();
+} catch (e) {
+  if (!(e instanceof UsageError)) throw e;
+  console.error(`sim: ${e.message}\n\n${USAGE}`);
+  process.exit(2);
+}
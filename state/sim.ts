@@ -1,24 +1,91 @@
 "use client";
 import { create } from "zustand";
+import type { ForceAccuracy, ForceSolver } from "~/lib/forces";
+import type { Integrator } from "~/lib/physics";
+import type { Drift } from "~/lib/diagnostics";
+import type { CollisionEvent, CollisionMode } from "~/lib/collisions";
+import type { Body, BodyDisplay } from "~/lib/bodies";
+import type { Burn } from "~/lib/maneuvers";
+import type { PrecessionReport, RoundTrip } from "~/lib/engine";
+import type { Porkchop, TransferOutcome } from "~/lib/transfer";
+import type { PresetId } from "~/lib/presets";
+import type { HistoryRange } from "~/lib/history";
+import { J2000_JD } from "~/lib/time";
 
-export type Integrator = "leapfrog" | "rk4";
+export type { Integrator };
+
+/** Step counters published by the adaptive integrator. */
+export type StepStats = { accepted: number; rejected: number; truncated: number; h: number };
 
 type Store = {
   // Sim core
   running: boolean;
   dt: number;
-  timeScale: number;
+  timeScale: number;            // negative runs the simulation backward
   integrator: Integrator;
   trails: boolean;
   massScale: number;
   velScale: number;
+  preset: PresetId;             // what Reset loads
   resetSignal: number;
 
-  // Trail length per body (id -> count)
-  trailLen: Record<string, number>;
+  // Mirrors of the worker's system (updated on "bodies" / stats messages)
+  bodies: Body[];
+  masses: number[];             // Msun, parallel to bodies
+  simTime: number;              // sim days since reset
+
+  // Calendar: simTime 0 is epochJD (Julian date, UTC); resets start the planets there
+  epochJD: number;
+
+  // Snapshot history the timeline can seek in (null until the first stats)
+  history: HistoryRange | null;
+
+  // Adaptive integrator
+  tolerance: number;            // relative local error per step
+  stepStats: StepStats;
+  simRate: { target: number; actual: number }; // days per wall second, reported by the worker
+
+  // General relativity (1PN from the Sun) and the perihelion-precession check
+  gr: boolean;
+  perihelionBody: string;
+  precession: PrecessionReport | null;
+
+  // Conserved-quantity drift samples since reset (bounded, newest last)
+  driftHistory: Drift[];
+
+  // Force backend
+  forceSolver: ForceSolver;
+  bhTheta: number;              // Barnes–Hut opening angle
+  forceCheckSignal: number;
+  forceAccuracy: ForceAccuracy | null;
+
+  // Forward-then-backward reversibility check, one result per integrator
+  roundTrip: RoundTrip[] | null;
+
+  // Transfer planning: last porkchop grid from the worker
+  porkchop: Porkchop | null;
+  transfer: TransferOutcome | null; // what the last launch from it came to
+
+  // Collisions
+  collisions: CollisionMode;
+  collisionLog: CollisionEvent[]; // since reset (bounded, newest last)
+
+  // Massless test particles currently in the worker's system
+  particleCount: number;
+
+  // Scheduled maneuvers (synced to the worker)
+  burns: Burn[];
+
+  // Body registry: display settings for every body in the system (id -> settings),
+  // seeded from the scenario and kept in step with `bodies`
+  display: Record<string, BodyDisplay>;
+
+  // Osculating-orbit overlay per body (id -> shown)
+  orbitOverlays: Record<string, boolean>;
 
   // Camera
   camMinDist: number;
+  zoomAid: boolean;             // shrink bodies and labels up close so moons stay visible
   camMaxDist: number;
   camZoomSpeed: number;
   camAutoRotate: boolean;
@@ -32,10 +99,20 @@ type Store = {
   // Actions
   set: (p: Partial<Store>) => void;
   pokeReset: () => void;
-  setTrailLen: (id: string, n: number) => void;
+  resetAt: (epochJD: number) => void; // reload the preset with the planets where they are at epochJD
+  loadPreset: (id: PresetId) => void;
+  pokeForceCheck: () => void;
+  setDisplay: (id: string, patch: Partial<BodyDisplay>) => void;
+  toggleOrbitOverlay: (id: string) => void;
+  addBurn: (b: Omit<Burn, "id">) => void;
+  updateBurn: (id: string, patch: Partial<Burn>) => void;
+  removeBurn: (id: string) => void;
+  replaceBurns: (burns: Omit<Burn, "id">[]) => void; // fresh ids (e.g. burns from an imported scenario)
   bumpCamReset: () => void;
 };
 
+let burnSeq = 0;
+
 export const useSim = create<Store>((set) => ({
   // --- core
   running: true,
@@ -45,22 +122,52 @@ export const useSim = create<Store>((set) => ({
   trails: true,
   massScale: 1,
   velScale: 1,
+  preset: "solar-system",
   resetSignal: 0,
 
-  trailLen: {
-    sun: 1200,
-    mercury: 1200,
-    venus: 1500,
-    earth: 2000,
-    mars: 2000,
-    jupiter: 1500,
-    saturn: 1200,
-    uranus: 1000,
-    neptune: 1000,
-  },
+  bodies: [],
+  masses: [],
+  simTime: 0,
+
+  epochJD: J2000_JD,
+
+  history: null,
+
+  tolerance: 1e-10,
+  stepStats: { accepted: 0, rejected: 0, truncated: 0, h: 0 },
+  simRate: { target: 0, actual: 0 },
+
+  gr: false,
+  perihelionBody: "mercury",
+  precession: null,
+
+  driftHistory: [],
+
+  forceSolver: "direct",
+  bhTheta: 0.5,
+  forceCheckSignal: 0,
+  forceAccuracy: null,
+
+  roundTrip: null,
+
+  porkchop: null,
+  transfer: null,
+
+  collisions: "merge",
+  collisionLog: [],
+
+  particleCount: 0,
+
+  burns: [],
+
+  display: {},
+
+
+  orbitOverlays: {},
 
   // --- camera
   camMinDist: 0.05,
+  zoomAid: true,
   camMaxDist: 800,
   camZoomSpeed: 0.9,
   camAutoRotate: false,
@@ -74,7 +181,17 @@ export const useSim = create<Store>((set) => ({
   // --- actions
   set: (p) => set(p),
   pokeReset: () => set((s) => ({ resetSignal: s.resetSignal + 1 })),
-  setTrailLen: (id, n) =>
-    set((s) => ({ trailLen: { ...s.trailLen, [id]: Math.max(0, Math.floor(n)) } })),
+  resetAt: (epochJD) => set((s) => ({ epochJD, resetSignal: s.resetSignal + 1 })),
+  loadPreset: (preset) => set((s) => ({ preset, resetSignal: s.resetSignal + 1 })),
+  pokeForceCheck: () => set((s) => ({ forceCheckSignal: s.forceCheckSignal + 1 })),
+  setDisplay: (id, patch) =>
+    set((s) => (s.display[id] ? { display: { ...s.display, [id]: { ...s.display[id], ...patch } } } : {})),
+  toggleOrbitOverlay: (id) =>
+    set((s) => ({ orbitOverlays: { ...s.orbitOverlays, [id]: !s.orbitOverlays[id] } })),
+  addBurn: (b) => set((s) => ({ burns: [...s.burns, { ...b, id: `burn-${++burnSeq}` }] })),
+  updateBurn: (id, patch) =>
+    set((s) => ({ burns: s.burns.map(b => (b.id === id ? { ...b, ...patch } : b)) })),
+  removeBurn: (id) => set((s) => ({ burns: s.burns.filter(b => b.id !== id) })),
+  replaceBurns: (burns) => set({ burns: burns.map(b => ({ ...b, id: `burn-${++burnSeq}` })) }),
   bumpCamReset: () => set((s) => ({ camResetPulse: s.camResetPulse + 1 })),
 }));
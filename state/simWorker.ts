@@ -0,0 +1,252 @@
+"use client";
+import { defaultDisplay, type Body, type BodyDisplay, type BodyInit } from "~/lib/bodies";
+import type { Scenario } from "~/lib/scenario";
+import type { BodiesMsg, FromWorker, ToWorker, WorkerSettings } from "~/lib/simProtocol";
+import { useSim } from "~/state/sim";
+
+const DRIFT_HISTORY = 240; // ~1 minute of samples at the worker's 4 Hz stats rate
+const COLLISION_LOG = 50;
+
+/** A snapshot from the worker, stamped with its arrival time on this thread. */
+export type Snapshot = { seq: number; t: number; pos: Float64Array; vel: Float64Array; recv: number };
+
+/**
+ * The two most recent snapshots; rendering interpolates between them.
+ * `jumps` counts discontinuities (jump, seek): trails restart when it changes,
+ * from `trails` (the recorded path, after a seek) if there is one.
+ */
+export const frames: {
+  prev: Snapshot | null;
+  next: Snapshot | null;
+  jumps: number;
+  trails: Record<string, Float32Array> | null;
+} = { prev: null, next: null, jumps: 0, trails: null };
+
+let worker: Worker | null = null;
+
+/** Send a command to the running physics worker (no-op before it starts). */
+export function postSim(msg: ToWorker, transfer: Transferable[] = []) {
+  worker?.postMessage(msg, transfer);
+}
+
+const BODY_INITS_TIMEOUT_MS = 5000;
+
+type BodyInitWaiter = {
+  resolve: (r: { t: number; bodies: BodyInit[] }) => void;
+  reject: (e: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+let bodyInitWaiters: BodyInitWaiter[] = [];
+
+function settleBodyInits(settle: (w: BodyInitWaiter) => void) {
+  const waiters = bodyInitWaiters;
+  bodyInitWaiters = [];
+  for (const w of waiters) {
+    clearTimeout(w.timer);
+    settle(w);
+  }
+}
+
+/**
+ * The worker's current bodies with their full state. Rejects if the worker
+ * isn't running, is stopped before it answers, or doesn't answer in time.
+ */
+export function requestBodyInits(): Promise<{ t: number; bodies: BodyInit[] }> {
+  return new Promise((resolve, reject) => {
+    if (!worker) {
+      reject(new Error("the physics worker is not running"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      bodyInitWaiters = bodyInitWaiters.filter(w => w.timer !== timer);
+      reject(new Error("the physics worker did not answer"));
+    }, BODY_INITS_TIMEOUT_MS);
+    bodyInitWaiters.push({ resolve, reject, timer });
+    postSim({ type: "getBodyInits" });
+  });
+}
+
+/**
+ * Display settings for exactly `bodies`: what `current` has for each, with
+ * `overrides` on top, and defaults for bodies seen for the first time.
+ */
+function registry(
+  bodies: Body[],
+  current: Record<string, BodyDisplay>,
+  overrides: Record<string, Partial<BodyDisplay>> = {}
+): Record<string, BodyDisplay> {
+  return Object.fromEntries(bodies.map(b => [b.id, { ...defaultDisplay(b), ...current[b.id], ...overrides[b.id] }]));
+}
+
+/**
+ * Replace the running system with `scenario` and take over its date, settings,
+ * display settings and (if it has any) burns. The focus survives if its body does.
+ */
+export function loadScenario(scenario: Scenario) {
+  const s = useSim.getState();
+  s.set({
+    ...scenario.settings,
+    epochJD: scenario.epochJD ?? s.epochJD,
+    display: registry(scenario.bodies, s.display, scenario.display),
+    focusId: scenario.bodies.some(b => b.id === s.focusId) ? s.focusId : null,
+  });
+  if (scenario.burns) s.replaceBurns(scenario.burns);
+  postSim({ type: "load", bodies: scenario.bodies });
+}
+
+type StoreState = ReturnType<typeof useSim.getState>;
+
+function workerSettings(s: StoreState): WorkerSettings {
+  return {
+    running: s.running,
+    // same meaning the dt/timeScale pair always had: dt days per tick at ~60 ticks/s
+    daysPerSecond: 60 * s.dt * s.timeScale,
+    integrator: s.integrator,
+    massScale: s.massScale,
+    velScale: s.velScale,
+    tolerance: s.tolerance,
+    forceSolver: s.forceSolver,
+    bhTheta: s.bhTheta,
+    collisions: s.collisions,
+    gr: s.gr,
+    perihelionBody: s.perihelionBody,
+  };
+}
+
+function assign<K extends keyof WorkerSettings>(out: Partial<WorkerSettings>, k: K, v: WorkerSettings[K]) {
+  out[k] = v;
+}
+
+function diffSettings(a: WorkerSettings, b: WorkerSettings): Partial<WorkerSettings> | null {
+  const out: Partial<WorkerSettings> = {};
+  let changed = false;
+  for (const k of Object.keys(b) as (keyof WorkerSettings)[]) {
+    if (a[k] !== b[k]) { assign(out, k, b[k]); changed = true; }
+  }
+  return changed ? out : null;
+}
+
+/**
+ * Start the physics worker, keep it in sync with the store and route its
+ * messages (snapshots → `frames`, stats → store). Returns a cleanup function.
+ */
+export function startSimWorker(onBodies: (msg: BodiesMsg) => void): () => void {
+  const w = new Worker(new URL("../workers/sim.worker.ts", import.meta.url));
+  worker = w;
+
+  w.onmessage = (e: MessageEvent<FromWorker>) => {
+    const msg = e.data;
+    switch (msg.type) {
+      case "frame": {
+        const dropped = frames.prev;
+        if (msg.discontinuous) {
+          frames.jumps++;
+          frames.trails = msg.trails ?? null;
+        }
+        // never interpolate across a jump
+        frames.prev = msg.discontinuous ? null : frames.next;
+        frames.next = { seq: msg.seq, t: msg.t, pos: msg.pos, vel: msg.vel, recv: performance.now() };
+        if (dropped) postSim({ type: "recycle", pos: dropped.pos, vel: dropped.vel }, [dropped.pos.buffer, dropped.vel.buffer]);
+        break;
+      }
+      case "bodies":
+        // buffers change size: never interpolate across it
+        frames.prev = frames.next = null;
+        // a new system starts fresh histories; a merge keeps them
+        useSim.setState(s => {
+          const mirror = {
+            bodies: msg.bodies,
+            masses: msg.masses,
+            particleCount: msg.particles,
+            display: registry(msg.bodies, s.display),
+          };
+          return msg.reset ? { ...mirror, driftHistory: [], collisionLog: [] } : mirror;
+        });
+        onBodies(msg);
+        break;
+      case "collisions":
+        useSim.setState(s => ({ collisionLog: [...s.collisionLog, ...msg.events].slice(-COLLISION_LOG) }));
+        break;
+      case "stats": {
+        const hist = useSim.getState().driftHistory;
+        const last = hist[hist.length - 1];
+        // only record while the clock moves (paused stats would flatten the sparkline)
+        const driftHistory = last && last.t === msg.drift.t
+          ? hist
+          : [...hist.slice(-(DRIFT_HISTORY - 1)), msg.drift];
+        useSim.setState({
+          simTime: msg.t,
+          history: msg.history,
+          precession: msg.precession,
+          stepStats: {
+            accepted: msg.steps.accepted,
+            rejected: msg.steps.rejected,
+            truncated: msg.steps.truncated,
+            h: msg.steps.h,
+          },
+          simRate: { target: msg.targetDps, actual: msg.actualDps },
+          driftHistory,
+        });
+        break;
+      }
+      case "forceAccuracy":
+        useSim.setState({ forceAccuracy: msg.result });
+        break;
+      case "roundTrip":
+        useSim.setState({ roundTrip: msg.results });
+        break;
+      case "porkchop":
+        useSim.setState({ porkchop: msg.result, transfer: null });
+        break;
+      case "transfer":
+        useSim.setState({ transfer: msg.result });
+        break;
+      case "bodyInits":
+        settleBodyInits(waiter => waiter.resolve({ t: msg.t, bodies: msg.bodies }));
+        break;
+    }
+  };
+
+  let last = workerSettings(useSim.getState());
+  let lastBurns = useSim.getState().burns;
+  postSim({ type: "settings", settings: last });
+  postSim({ type: "burns", burns: lastBurns });
+  const unsub = useSim.subscribe((s) => {
+    const next = workerSettings(s);
+    const patch = diffSettings(last, next);
+    last = next;
+    if (patch) postSim({ type: "settings", settings: patch });
+    if (s.burns !== lastBurns) {
+      lastBurns = s.burns;
+      postSim({ type: "burns", burns: s.burns });
+    }
+  });
+
+  return () => {
+    unsub();
+    w.terminate();
+    if (worker === w) {
+      worker = null;
+      settleBodyInits(waiter => waiter.reject(new Error("the physics worker was stopped")));
+    }
+    frames.prev = frames.next = null;
+  };
+}
+
+/**
+ * Interpolated positions for wall time `now` (performance.now()).
+ * Renders one worker tick behind the newest snapshot so motion is smooth
+ * regardless of how the worker's cadence lines up with display frames.
+ * Returns false if there is no snapshot matching `out`'s size yet.
+ */
+export function samplePositions(now: number, out: Float64Array): boolean {
+  const { prev, next } = frames;
+  if (!next || next.pos.length !== out.length) return false;
+  if (!prev || prev.pos.length !== out.length || next.recv <= prev.recv) {
+    out.set(next.pos);
+    return true;
+  }
+  const alpha = Math.min(1, Math.max(0, (now - next.recv) / (next.recv - prev.recv)));
+  for (let k = 0; k < out.length; k++) out[k] = prev.pos[k] + (next.pos[k] - prev.pos[k]) * alpha;
+  return true;
+}
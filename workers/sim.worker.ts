@@ -0,0 +1,261 @@
+// workers/sim.worker.ts
+// Physics loop, decoupled from render frames. Steps the engine on its own
+// wall-clock cadence and posts position snapshots back as transferable buffers.
+import {
+  createEngine,
+  addBody,
+  addParticles,
+  advance,
+  advanceTo,
+  engineDrift,
+  loadSystem,
+  precessionReport,
+  editBody,
+  removeBody,
+  roundTrip,
+  setBodies,
+  updateEngineSettings,
+} from "~/lib/engine";
+import { ensurePayload, ensurePayloadGEO } from "~/lib/bodies";
+import { createSimState, toBodyInits } from "~/lib/simstate";
+import { makePrecessionTestBodies } from "~/lib/relativity";
+import { createBarnesHut, measureForceAccuracy } from "~/lib/forces";
+import { generatePopulation } from "~/lib/particles";
+import { computePorkchop, transferPayload } from "~/lib/transfer";
+import {
+  clearHistory,
+  createHistory,
+  historyRange,
+  historyTrails,
+  recordHistory,
+  seekHistory,
+} from "~/lib/history";
+import type { FromWorker, ToWorker, WorkerSettings } from "~/lib/simProtocol";
+import type { Integrator } from "~/lib/physics";
+
+const ctx = self as unknown as Worker;
+const post = (msg: FromWorker, transfer: Transferable[] = []) => ctx.postMessage(msg, transfer);
+
+const TICK_MS = 1000 / 60;  // physics cadence (independent of the display refresh)
+const MAX_TICK_MS = 100;    // a slow tick never tries to catch up more than this
+const STATS_MS = 250;
+const ROUND_TRIP_INTEGRATORS: Integrator[] = ["leapfrog", "yoshida4", "yoshida6", "wh", "rk4", "dopri", "kepler"];
+
+const engine = createEngine();
+const history = createHistory();
+let running = true;
+let daysPerSecond = 15;     // 60 ticks/s × 0.25 d, the old default
+let seq = 0;
+let lastTick = performance.now();
+let lastStats = lastTick;
+let simDaysSinceStats = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let spawnSeed = 0;
+
+// Snapshot buffers handed back by the UI thread
+const pool: { pos: Float64Array; vel: Float64Array }[] = [];
+
+function postFrame(discontinuous = false, trails?: Record<string, Float32Array>) {
+  const { state } = engine;
+  const len = 3 * state.n;
+  let bufs = pool.pop();
+  while (bufs && bufs.pos.length !== len) bufs = pool.pop();
+  const pos = bufs?.pos ?? new Float64Array(len);
+  const vel = bufs?.vel ?? new Float64Array(len);
+  pos.set(state.pos);
+  vel.set(state.vel);
+  const transfer: Transferable[] = [pos.buffer, vel.buffer];
+  if (trails) for (const id in trails) transfer.push(trails[id].buffer);
+  post({ type: "frame", seq: ++seq, t: engine.t, pos, vel, discontinuous, trails }, transfer);
+}
+
+function postBodies(reset: boolean) {
+  const { state } = engine;
+  post({
+    type: "bodies",
+    bodies: engine.bodies,
+    masses: Array.from(state.mass.subarray(0, state.nBodies)),
+    particles: state.n - state.nBodies,
+    reset,
+  });
+}
+
+function postStats(now: number) {
+  const wall = (now - lastStats) / 1000;
+  post({
+    type: "stats",
+    t: engine.t,
+    steps: { ...engine.adaptive },
+    targetDps: running ? daysPerSecond : 0,
+    actualDps: wall > 0 ? simDaysSinceStats / wall : 0,
+    drift: engineDrift(engine),
+    precession: precessionReport(engine),
+    history: historyRange(history),
+  });
+  lastStats = now;
+  simDaysSinceStats = 0;
+}
+
+function tick() {
+  const now = performance.now();
+  const elapsed = Math.min(now - lastTick, MAX_TICK_MS);
+  lastTick = now;
+
+  if (running) {
+    const days = daysPerSecond * elapsed / 1000;
+    const bodies = engine.bodies;
+    const moved = advance(engine, days);
+    // running backward retraces recorded snapshots; only forward runs add (and branch) history
+    if (days > 0) recordHistory(history, engine);
+    simDaysSinceStats += moved;
+    if (engine.events.length) {
+      post({ type: "collisions", events: engine.events });
+      engine.events = [];
+    }
+    // merges/deletions shrink the system; the UI must see the new list before the frame
+    if (engine.bodies !== bodies) postBodies(false);
+    postFrame();
+  }
+  if (now - lastStats >= STATS_MS) postStats(now);
+
+  // schedule relative to the work just done so a heavy step can't pile up ticks
+  const spent = performance.now() - now;
+  timer = setTimeout(tick, Math.max(0, TICK_MS - spent));
+}
+
+/** Propagate (forward or backward) to sim time t and show it as a discontinuity. */
+function jumpTo(t: number) {
+  const bodies = engine.bodies;
+  advanceTo(engine, t);
+  if (engine.events.length) {
+    post({ type: "collisions", events: engine.events });
+    engine.events = [];
+  }
+  if (engine.bodies !== bodies) postBodies(false);
+  postFrame(true);
+  postStats(performance.now());
+}
+
+function applySettings(p: Partial<WorkerSettings>) {
+  const { running: r, daysPerSecond: dps, ...physics } = p;
+  if (r !== undefined) running = r;
+  if (dps !== undefined && Number.isFinite(dps)) daysPerSecond = dps;
+  updateEngineSettings(engine, physics);
+}
+
+ctx.onmessage = (e: MessageEvent<ToWorker>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case "settings":
+      applySettings(msg.settings);
+      break;
+    case "load":
+      loadSystem(engine, createSimState(msg.bodies));
+      clearHistory(history);
+      recordHistory(history, engine);
+      postBodies(true);
+      postFrame();
+      postStats(performance.now());
+      break;
+    case "loadPrecessionTest":
+      loadSystem(engine, createSimState(makePrecessionTestBodies()));
+      clearHistory(history);
+      recordHistory(history, engine);
+      postBodies(true);
+      postFrame();
+      postStats(performance.now());
+      break;
+    case "forceCheck": {
+      const { state, settings } = engine;
+      const mass = state.mass.map(m => m * settings.massScale);
+      post({
+        type: "forceAccuracy",
+        result: measureForceAccuracy(createBarnesHut(settings.bhTheta), state.pos, mass, state.n),
+      });
+      break;
+    }
+    case "roundTrip":
+      post({ type: "roundTrip", results: ROUND_TRIP_INTEGRATORS.map(i => roundTrip(engine, msg.days, i)) });
+      break;
+    case "jump":
+      jumpTo(msg.t);
+      break;
+    case "seek": {
+      const { bodies, state } = engine;
+      if (!seekHistory(history, engine, msg.t)) break;
+      if (engine.bodies !== bodies || engine.state.n !== state.n) postBodies(false);
+      postFrame(true, historyTrails(history, engine.bodies, engine.t));
+      postStats(performance.now());
+      break;
+    }
+    case "particles": {
+      const gen = generatePopulation(
+        msg.population, msg.count, engine.bodies, engine.state, engine.settings.massScale, ++spawnSeed
+      );
+      if (!gen) break;
+      addParticles(engine, gen.pos, gen.vel);
+      postBodies(false);
+      postFrame();
+      break;
+    }
+    case "clearParticles":
+      addParticles(engine, [], [], true);
+      postBodies(false);
+      postFrame();
+      break;
+    case "burns":
+      engine.burns = msg.burns;
+      break;
+    case "porkchop":
+      post({ type: "porkchop", result: computePorkchop(engine, msg.spec) });
+      break;
+    case "transfer": {
+      const plan = { from: msg.from, to: msg.to, depart: msg.depart, arrive: msg.arrive };
+      const refuse = (error: string) => post({ type: "transfer", result: { ...plan, error } });
+      // launching late on the same arrival would be a different arc than the one picked
+      if (msg.depart < engine.t) { refuse("its departure date has passed; recompute the porkchop"); break; }
+      if (msg.depart > engine.t) jumpTo(msg.depart);
+      if (engine.t !== msg.depart) { refuse("the integrator stalled before the departure date"); break; }
+      const launch = transferPayload(engine, msg.from, msg.to, msg.arrive - msg.depart);
+      if (!launch) { refuse("there is no arc between those dates"); break; }
+      const init = toBodyInits(engine.bodies, engine.state);
+      ensurePayload(init, launch.position, launch.velocity);
+      setBodies(engine, init);
+      postBodies(false);
+      postFrame();
+      post({ type: "transfer", result: { ...plan, c3: launch.c3 } });
+      break;
+    }
+    case "payload": {
+      const init = toBodyInits(engine.bodies, engine.state);
+      if (msg.position && msg.velocity) ensurePayload(init, msg.position, msg.velocity);
+      else ensurePayloadGEO(init);
+      setBodies(engine, init);
+      postBodies(false);
+      postFrame();
+      break;
+    }
+    case "editBody":
+    case "addBody":
+    case "removeBody": {
+      const changed = msg.type === "editBody" ? editBody(engine, msg.id, msg.edit)
+        : msg.type === "addBody" ? addBody(engine, msg.body, msg.relativeTo)
+        : removeBody(engine, msg.id);
+      if (!changed) break;
+      postBodies(false);
+      postFrame();
+      break;
+    }
+    case "getBodyInits":
+      post({ type: "bodyInits", t: engine.t, bodies: toBodyInits(engine.bodies, engine.state) });
+      break;
+    case "recycle":
+      if (pool.length < 4) pool.push({ pos: msg.pos, vel: msg.vel });
+      break;
+  }
+};
+
+recordHistory(history, engine);
+postBodies(true);
+postFrame();
+if (timer === null) tick();